@@ -18,7 +18,7 @@ Common Options:
   --format <format>        Output format: esm|cjs|iife
   --splitting              Enable code splitting
   --packages <type>        Package handling: bundle|external
-  --public-path <path>     Public path for assets
+  --public-path <path>     Public path for assets (default: "/")
   --env <mode>             Environment handling: inline|disable|prefix*
   --conditions <list>      Package.json export conditions (comma separated)
   --external <list>        External packages (comma separated)
@@ -27,8 +27,15 @@ Common Options:
   --define <obj>           Define global constants (e.g. --define.VERSION=1.0.0)
   --help, -h               Show this help message
 
+Backend configuration:
+  BUN_PUBLIC_API_URL       HTTP origin of the backend (default: production shuttle.app)
+  BUN_PUBLIC_WS_URL        WebSocket origin (default: derived from BUN_PUBLIC_API_URL)
+  Both are read from the environment (env defaults to "BUN_PUBLIC_*"), or can be
+  passed with --define, e.g. --define.process.env.BUN_PUBLIC_API_URL='"http://localhost:8000"'
+
 Example:
   bun run build.ts --outdir=dist --minify --sourcemap=linked --external=react,react-dom
+  BUN_PUBLIC_API_URL=https://staging.example.com bun run build.ts
 `);
   process.exit(0);
 }
@@ -81,7 +88,10 @@ function parseArgs(): Partial<Bun.BuildConfig> {
     key = toCamelCase(key);
 
     if (key.includes(".")) {
-      const [parentKey, childKey] = key.split(".");
+      // Split on the first dot only, so --define.process.env.FOO=... keeps its full key
+      const dot = key.indexOf(".");
+      const parentKey = key.slice(0, dot);
+      const childKey = key.slice(dot + 1);
       config[parentKey] = config[parentKey] || {};
       config[parentKey][childKey] = parseValue(value);
     } else {
@@ -129,15 +139,29 @@ const result = await Bun.build({
   minify: true,
   target: "browser",
   sourcemap: "linked",
+  // Absolute asset URLs, so deep links like /orders/42 load the bundle
+  publicPath: "/",
+  env: "BUN_PUBLIC_*",
+  ...cliConfig,
   define: {
     "process.env.NODE_ENV": JSON.stringify("production"),
+    ...cliConfig.define,
   },
-  ...cliConfig,
+});
+
+// The service worker must be served from the root to control every page, so
+// it is built on its own as dist/sw.js
+const serviceWorker = await Bun.build({
+  entrypoints: [path.resolve("src", "sw.ts")],
+  outdir,
+  naming: "sw.js",
+  minify: true,
+  target: "browser",
 });
 
 const end = performance.now();
 
-const outputTable = result.outputs.map(output => ({
+const outputTable = [...result.outputs, ...serviceWorker.outputs].map(output => ({
   File: path.relative(process.cwd(), output.path),
   Type: output.kind,
   Size: formatFileSize(output.size),
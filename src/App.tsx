@@ -1,43 +1,74 @@
-import React, { useState, useEffect, createContext, useContext } from "react";
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  createContext,
+  useContext,
+} from "react";
 import "./index.css";
 import Chat from "./components/Chat";
 import Offers from "./components/Offers";
 import Profile from "./components/Profile";
-
-// Types
-interface User {
-  user_id: number;
-  username: string;
-  email: string;
-  password_hash: string;
-  created_at: string;
-}
-
-interface Order {
-  order_id: number;
-  user_id: number;
-  order_name: string;
-  order_desc: string;
-  price: number;
-  image_urls: string[];
-  created_at: string;
-}
-
-interface Offer {
-  offer_id: number;
-  order_id: number;
-  user_id: number;
-  status: string;
-  created_at: string;
-}
-
-interface Message {
-  message_id: number;
-  sender_id: number;
-  receiver_id: number;
-  content: string;
-  sent_at: string;
-}
+import OrderFilterPanel from "./components/OrderFilterPanel";
+import OrderDetail from "./components/OrderDetail";
+import OrderDrafts from "./components/OrderDrafts";
+import MarkdownEditor from "./components/MarkdownEditor";
+import EditOrderModal from "./components/EditOrderModal";
+import OrderLabels from "./components/OrderLabels";
+import OrderStatusBadge from "./components/OrderStatusBadge";
+import ApplyOfferModal from "./components/ApplyOfferModal";
+import TagInput from "./components/TagInput";
+import Toasts from "./components/Toasts";
+import UploadPreviews from "./components/UploadPreviews";
+import { api } from "./lib/api";
+import { chatConnection } from "./lib/chatConnection";
+import {
+  createDraftId,
+  deleteDraft,
+  formatDraftTime,
+  getDraft,
+  loadDrafts,
+  saveDraft,
+  type OrderDraft,
+} from "./lib/drafts";
+import { ACCEPTED_IMAGE_TYPES, MAX_ORDER_IMAGES } from "./lib/images";
+import { markdownExcerpt } from "./lib/markdown";
+import { matchSkills, ORDER_CATEGORIES } from "./lib/orderCategories";
+import { startNotifications } from "./lib/notifications";
+import { loadPushState, resetPush } from "./lib/push";
+import {
+  clearStore,
+  createOrder,
+  deleteOrder,
+  offersByOrder,
+  ordersByUser,
+  updateOrderStatus,
+  users,
+} from "./lib/store";
+import { isOfferNegotiable } from "./lib/offerStatus";
+import { canTransitionOrder, getOrderStatus } from "./lib/orderStatus";
+import {
+  Link,
+  closeModal,
+  matchPath,
+  navigate,
+  navigateModal,
+  useLocation,
+} from "./lib/router";
+import { useDebouncedValue } from "./hooks/useDebouncedValue";
+import { useNotifications } from "./hooks/useNotifications";
+import { useOrderFacets } from "./hooks/useOrderFacets";
+import { useOrderImages } from "./hooks/useOrderImages";
+import { useOrderSearch } from "./hooks/useOrderSearch";
+import { useEntity, useList } from "./hooks/useResource";
+import {
+  countActiveFilters,
+  filtersFromUrl,
+  filtersToUrl,
+  toOrderSearch,
+  type OrderFilters,
+} from "./lib/orderSearch";
+import type { Order, OrderCategory, OrderStatus, User } from "./types";
 
 // Auth Context
 interface AuthContextType {
@@ -63,9 +94,6 @@ const useAuth = () => {
   return context;
 };
 
-// API Base URL - adjust this to your backend URL
-const API_BASE = "https://techni-zlecenia-4wdh.shuttle.app";
-
 // Auth Provider Component
 function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
@@ -88,15 +116,17 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
     setIsLoading(false);
   }, [token]);
 
+  // Messages and offer events arrive over one connection for the session
+  useEffect(() => {
+    if (!user) return;
+    chatConnection.connect();
+    loadPushState();
+    return startNotifications(user.user_id);
+  }, [user?.user_id]);
+
   const fetchUser = async (userId: number) => {
     try {
-      const response = await fetch(`${API_BASE}/user/${userId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-      }
+      setUser(await users.fetch(userId));
     } catch (error) {
       console.error("Error fetching user:", error);
     }
@@ -107,19 +137,10 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
     password: string,
   ): Promise<boolean> => {
     try {
-      const response = await fetch(`${API_BASE}/user/login`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username, password }),
-      });
-
-      if (response.ok) {
-        const newToken = await response.text();
-        localStorage.setItem("token", newToken);
-        setToken(newToken);
-        return true;
-      }
-      return false;
+      const newToken = await api.login(username, password);
+      localStorage.setItem("token", newToken);
+      setToken(newToken);
+      return true;
     } catch (error) {
       console.error("Login error:", error);
       return false;
@@ -132,13 +153,8 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
     password: string,
   ): Promise<boolean> => {
     try {
-      const response = await fetch(`${API_BASE}/user/register`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username, email, password }),
-      });
-
-      return response.ok;
+      await api.register(username, email, password);
+      return true;
     } catch (error) {
       console.error("Register error:", error);
       return false;
@@ -146,6 +162,9 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const logout = () => {
+    chatConnection.close();
+    resetPush();
+    clearStore();
     localStorage.removeItem("token");
     setToken(null);
     setUser(null);
@@ -370,31 +389,109 @@ function RegisterForm({ onToggle }: { onToggle: () => void }) {
 // Dashboard Component
 function Dashboard() {
   const { user, logout, token } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [currentView, setCurrentView] = useState<
-    "browse" | "my-orders" | "create" | "offers" | "chat"
-  >("browse");
-  const [showChat, setShowChat] = useState(false);
-  const [showProfile, setShowProfile] = useState<number | null>(null);
+  const location = useLocation();
+  // Bumped to make BrowseOrders reload from the first page
+  const [ordersVersion, setOrdersVersion] = useState(0);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { totalUnread } = useNotifications();
+
+  // Profile and chat routes are modals drawn over the page they were opened
+  // from, or over the orders list when opened directly
+  const isModalRoute =
+    matchPath("/users/:id", location.pathname) !== null ||
+    matchPath("/chat", location.pathname) !== null ||
+    matchPath("/chat/:userId", location.pathname) !== null;
+  const viewUrl = new URL(
+    isModalRoute
+      ? (location.state?.background ?? "/orders")
+      : `${location.pathname}${location.search}`,
+    window.location.origin,
+  );
+  const viewPath = viewUrl.pathname;
 
-  useEffect(() => {
-    fetchOrders();
-  }, []);
+  const profileMatch = matchPath("/users/:id", location.pathname);
+  const chatMatch =
+    matchPath("/chat/:userId", location.pathname) ??
+    matchPath("/chat", location.pathname);
 
-  const fetchOrders = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/orders/search?query=`, {
-        headers: { Authorization: `Bearer ${localStorage.getItem("token")}` },
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setOrders(data);
-      }
-    } catch (error) {
-      console.error("Error fetching orders:", error);
+  useEffect(() => {
+    if (location.pathname === "/") {
+      navigate("/orders", { replace: true });
+    } else if (location.pathname === "/offers") {
+      navigate("/offers/sent", { replace: true });
     }
-  };
+  }, [location.pathname]);
+
+  const refreshOrders = () => setOrdersVersion((version) => version + 1);
+  const openProfile = (userId: number) => navigateModal(`/users/${userId}`);
+
+  const navItems = [
+    {
+      to: "/orders",
+      label: "Przeglądaj zlecenia",
+      active: viewPath === "/orders" || viewPath.startsWith("/orders/"),
+    },
+    {
+      to: "/my-orders",
+      label: "Moje zlecenia",
+      active: viewPath === "/my-orders",
+    },
+    { to: "/create", label: "Dodaj zlecenie", active: viewPath === "/create" },
+    {
+      to: "/offers/sent",
+      label: "Oferty",
+      active: viewPath.startsWith("/offers"),
+    },
+  ];
+
+  const orderMatch = matchPath("/orders/:id", viewPath);
+  const offersMatch = matchPath("/offers/:tab", viewPath);
+  const offersTab =
+    offersMatch?.tab === "sent" || offersMatch?.tab === "received"
+      ? offersMatch.tab
+      : null;
+
+  let content: React.ReactNode;
+  if (viewPath === "/" || viewPath === "/orders") {
+    content = (
+      <BrowseOrders
+        refreshKey={ordersVersion}
+        initialSearch={viewUrl.search}
+        onProfileClick={openProfile}
+      />
+    );
+  } else if (orderMatch && user) {
+    content = (
+      <OrderDetail
+        orderId={Number(orderMatch.id)}
+        currentUserId={user.user_id}
+        onProfileClick={openProfile}
+        onMessageClick={(userId) => navigateModal(`/chat/${userId}`)}
+      />
+    );
+  } else if (viewPath === "/my-orders") {
+    content = <MyOrders onProfileClick={openProfile} />;
+  } else if (viewPath === "/create") {
+    content = (
+      <CreateOrder
+        draftId={viewUrl.searchParams.get("draft")}
+        onOrderCreated={refreshOrders}
+      />
+    );
+  } else if (viewPath === "/offers") {
+    content = null;
+  } else if (offersTab && user && token) {
+    content = (
+      <Offers
+        currentUserId={user.user_id}
+        token={token}
+        activeTab={offersTab}
+        onTabChange={(tab) => navigate(`/offers/${tab}`, { replace: true })}
+      />
+    );
+  } else {
+    content = <NotFound />;
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -403,55 +500,29 @@ function Dashboard() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16">
             <div className="flex items-center">
-              <h1 className="text-xl font-bold text-gray-900">
+              <Link to="/orders" className="text-xl font-bold text-gray-900">
                 TechniZlecenia
-              </h1>
+              </Link>
             </div>
 
             {/* Desktop Navigation */}
             <div className="hidden md:flex items-center space-x-4">
-              <button
-                onClick={() => setCurrentView("browse")}
-                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                  currentView === "browse"
-                    ? "bg-indigo-100 text-indigo-700"
-                    : "text-gray-500 hover:text-gray-700"
-                }`}
-              >
-                Przeglądaj zlecenia
-              </button>
-              <button
-                onClick={() => setCurrentView("my-orders")}
-                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                  currentView === "my-orders"
-                    ? "bg-indigo-100 text-indigo-700"
-                    : "text-gray-500 hover:text-gray-700"
-                }`}
-              >
-                Moje zlecenia
-              </button>
-              <button
-                onClick={() => setCurrentView("create")}
-                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                  currentView === "create"
-                    ? "bg-indigo-100 text-indigo-700"
-                    : "text-gray-500 hover:text-gray-700"
-                }`}
-              >
-                Dodaj zlecenie
-              </button>
-              <button
-                onClick={() => setCurrentView("offers")}
-                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                  currentView === "offers"
-                    ? "bg-indigo-100 text-indigo-700"
-                    : "text-gray-500 hover:text-gray-700"
-                }`}
-              >
-                Oferty
-              </button>
-              <button
-                onClick={() => setShowChat(true)}
+              {navItems.map((item) => (
+                <Link
+                  key={item.to}
+                  to={item.to}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    item.active
+                      ? "bg-indigo-100 text-indigo-700"
+                      : "text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {item.label}
+                </Link>
+              ))}
+              <Link
+                to="/chat"
+                modal
                 className="px-3 py-2 rounded-md text-sm font-medium text-gray-500 hover:text-gray-700 transition-colors relative"
               >
                 <svg
@@ -467,7 +538,12 @@ function Dashboard() {
                     d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
                   />
                 </svg>
-              </button>
+                {totalUnread > 0 && (
+                  <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-medium flex items-center justify-center">
+                    {totalUnread > 99 ? "99+" : totalUnread}
+                  </span>
+                )}
+              </Link>
               <div className="flex items-center space-x-2">
                 <span className="text-sm text-gray-700 hidden lg:block">
                   Witaj, {user?.username}
@@ -517,67 +593,33 @@ function Dashboard() {
           {isMobileMenuOpen && (
             <div className="md:hidden border-t border-gray-200 pb-3 pt-4">
               <div className="space-y-1 px-2">
-                <button
-                  onClick={() => {
-                    setCurrentView("browse");
-                    setIsMobileMenuOpen(false);
-                  }}
-                  className={`block w-full text-left px-3 py-2 rounded-md text-base font-medium transition-colors ${
-                    currentView === "browse"
-                      ? "bg-indigo-100 text-indigo-700"
-                      : "text-gray-500 hover:text-gray-700 hover:bg-gray-50"
-                  }`}
-                >
-                  Przeglądaj zlecenia
-                </button>
-                <button
-                  onClick={() => {
-                    setCurrentView("my-orders");
-                    setIsMobileMenuOpen(false);
-                  }}
-                  className={`block w-full text-left px-3 py-2 rounded-md text-base font-medium transition-colors ${
-                    currentView === "my-orders"
-                      ? "bg-indigo-100 text-indigo-700"
-                      : "text-gray-500 hover:text-gray-700 hover:bg-gray-50"
-                  }`}
-                >
-                  Moje zlecenia
-                </button>
-                <button
-                  onClick={() => {
-                    setCurrentView("create");
-                    setIsMobileMenuOpen(false);
-                  }}
-                  className={`block w-full text-left px-3 py-2 rounded-md text-base font-medium transition-colors ${
-                    currentView === "create"
-                      ? "bg-indigo-100 text-indigo-700"
-                      : "text-gray-500 hover:text-gray-700 hover:bg-gray-50"
-                  }`}
-                >
-                  Dodaj zlecenie
-                </button>
-                <button
-                  onClick={() => {
-                    setCurrentView("offers");
-                    setIsMobileMenuOpen(false);
-                  }}
-                  className={`block w-full text-left px-3 py-2 rounded-md text-base font-medium transition-colors ${
-                    currentView === "offers"
-                      ? "bg-indigo-100 text-indigo-700"
-                      : "text-gray-500 hover:text-gray-700 hover:bg-gray-50"
-                  }`}
-                >
-                  Oferty
-                </button>
-                <button
-                  onClick={() => {
-                    setShowChat(true);
-                    setIsMobileMenuOpen(false);
-                  }}
-                  className="block w-full text-left px-3 py-2 rounded-md text-base font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-50 transition-colors"
+                {navItems.map((item) => (
+                  <Link
+                    key={item.to}
+                    to={item.to}
+                    onClick={() => setIsMobileMenuOpen(false)}
+                    className={`block w-full text-left px-3 py-2 rounded-md text-base font-medium transition-colors ${
+                      item.active
+                        ? "bg-indigo-100 text-indigo-700"
+                        : "text-gray-500 hover:text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {item.label}
+                  </Link>
+                ))}
+                <Link
+                  to="/chat"
+                  modal
+                  onClick={() => setIsMobileMenuOpen(false)}
+                  className="flex items-center justify-between w-full text-left px-3 py-2 rounded-md text-base font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-50 transition-colors"
                 >
                   Wiadomości
-                </button>
+                  {totalUnread > 0 && (
+                    <span className="min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-medium flex items-center justify-center">
+                      {totalUnread > 99 ? "99+" : totalUnread}
+                    </span>
+                  )}
+                </Link>
                 <div className="border-t border-gray-200 pt-4 mt-4">
                   <div className="px-3 pb-2">
                     <span className="text-sm text-gray-700">
@@ -598,82 +640,133 @@ function Dashboard() {
       </nav>
 
       {/* Content */}
-      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-        {currentView === "browse" && (
-          <BrowseOrders
-            orders={orders}
-            onProfileClick={(userId) => setShowProfile(userId)}
-          />
-        )}
-        {currentView === "my-orders" && (
-          <MyOrders onProfileClick={(userId) => setShowProfile(userId)} />
-        )}
-        {currentView === "create" && (
-          <CreateOrder onOrderCreated={fetchOrders} />
-        )}
-        {currentView === "offers" && user && token && (
-          <Offers currentUserId={user.user_id} token={token} />
-        )}
-      </div>
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">{content}</div>
+
+      <Toasts />
 
       {/* Chat Modal */}
-      {showChat && user && token && (
+      {chatMatch && user && token && (
         <Chat
           currentUserId={user.user_id}
-          token={token}
-          onClose={() => setShowChat(false)}
+          selectedUserId={chatMatch.userId ? Number(chatMatch.userId) : null}
+          onSelectUser={(userId) =>
+            navigate(`/chat/${userId}`, {
+              replace: true,
+              state: location.state,
+            })
+          }
+          onClose={() => closeModal("/orders")}
         />
       )}
 
       {/* Profile Modal */}
-      {showProfile && user && token && (
+      {profileMatch && user && token && (
         <Profile
-          userId={showProfile}
+          userId={Number(profileMatch.id)}
           currentUserId={user.user_id}
           token={token}
-          onClose={() => setShowProfile(null)}
+          onClose={() => closeModal("/orders")}
         />
       )}
     </div>
   );
 }
 
+// Not Found Component
+function NotFound() {
+  return (
+    <div className="text-center py-12">
+      <h3 className="text-lg font-medium text-gray-900 mb-2">
+        Nie znaleziono strony
+      </h3>
+      <p className="text-gray-500 mb-4">
+        Ta strona nie istnieje lub została przeniesiona.
+      </p>
+      <Link to="/orders" className="btn-primary">
+        Przeglądaj zlecenia
+      </Link>
+    </div>
+  );
+}
+
+// Facets above the order list, "" stands for every category
+const CATEGORY_FACETS: { value: OrderCategory | ""; label: string }[] = [
+  { value: "", label: "Wszystkie" },
+  ...ORDER_CATEGORIES,
+];
+
 // Browse Orders Component
 function BrowseOrders({
-  orders,
+  refreshKey,
+  initialSearch,
   onProfileClick,
 }: {
-  orders: Order[];
+  refreshKey: number;
+  initialSearch: string;
   onProfileClick: (userId: number) => void;
 }) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [filteredOrders, setFilteredOrders] = useState<Order[]>(orders);
-
+  const { user } = useAuth();
+  // The cached copy, updated when the user edits their skills
+  const { data: currentUser } = useEntity(users, user?.user_id ?? null);
+  const skills = currentUser?.skills ?? [];
+  const [filters, setFilters] = useState<OrderFilters>(() =>
+    filtersFromUrl(initialSearch),
+  );
+  const activeFilterCount = countActiveFilters(filters);
+  const [showFilters, setShowFilters] = useState(activeFilterCount > 0);
+  const debouncedFilters = useDebouncedValue(filters, 300);
+  const search = toOrderSearch(debouncedFilters, user?.user_id, skills);
+  const { orders, hasMore, isLoading, error, loadMore } = useOrderSearch(
+    search,
+    refreshKey,
+  );
+  const categoryCounts = useOrderFacets(search, refreshKey);
+  const totalCount = categoryCounts
+    ? Object.values(categoryCounts).reduce((sum, count) => sum + count, 0)
+    : null;
+  const needsSkills = filters.matchSkills && skills.length === 0;
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Keep the active filters in the URL so filtered views can be shared.
+  // Skipped while a modal route is open on top of the list.
   useEffect(() => {
-    if (searchQuery.trim() === "") {
-      setFilteredOrders(orders);
-    } else {
-      const filtered = orders.filter(
-        (order) =>
-          order.order_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          order.order_desc.toLowerCase().includes(searchQuery.toLowerCase()),
-      );
-      setFilteredOrders(filtered);
+    if (window.location.pathname !== "/orders") return;
+    const search = filtersToUrl(debouncedFilters, window.location.search);
+    if (search !== window.location.search) {
+      navigate(`/orders${search}`, { replace: true });
     }
-  }, [searchQuery, orders]);
+  }, [debouncedFilters]);
+
+  // Infinite scroll: load the next page when the sentinel below the grid
+  // comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
 
   return (
     <div className="px-4 py-6 sm:px-0">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6 space-y-4 sm:space-y-0">
         <h2 className="text-2xl font-bold text-gray-900">Dostępne zlecenia</h2>
-        <div className="w-full sm:w-auto sm:max-w-md">
-          <div className="relative">
+        <div className="w-full sm:w-auto sm:max-w-md flex items-center space-x-2">
+          <div className="relative flex-1">
             <input
               type="text"
               placeholder="Szukaj zleceń..."
               className="input-field pl-10"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={filters.query}
+              onChange={(e) =>
+                setFilters((prev) => ({ ...prev, query: e.target.value }))
+              }
             />
             <svg
               className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
@@ -689,10 +782,112 @@ function BrowseOrders({
               />
             </svg>
           </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`whitespace-nowrap ${
+              showFilters || activeFilterCount > 0
+                ? "btn-primary"
+                : "btn-secondary"
+            }`}
+          >
+            Filtry{activeFilterCount > 0 ? ` (${activeFilterCount})` : ""}
+          </button>
+        </div>
+      </div>
+
+      {showFilters && (
+        <OrderFilterPanel filters={filters} onChange={setFilters} />
+      )}
+
+      <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3 mb-6">
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_FACETS.map(({ value, label }) => {
+            const count =
+              categoryCounts &&
+              (value ? (categoryCounts[value] ?? 0) : totalCount);
+            const isActive = filters.category === value;
+            // Empty categories are left out, unless picked
+            if (count === 0 && !isActive) return null;
+            return (
+              <button
+                key={value || "all"}
+                onClick={() =>
+                  setFilters((prev) => ({ ...prev, category: value }))
+                }
+                className={`rounded-full border px-3 py-1 text-sm transition-colors ${
+                  isActive
+                    ? "border-indigo-600 bg-indigo-600 text-white"
+                    : "border-gray-300 bg-white text-gray-700 hover:border-indigo-400"
+                }`}
+              >
+                {label}
+                {count !== null && (
+                  <span className="ml-1.5 opacity-75">{count}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+        <div className="inline-flex self-start rounded-md border border-gray-300 bg-white p-0.5 text-sm">
+          {[
+            { matchSkills: false, label: "Wszystkie zlecenia" },
+            { matchSkills: true, label: "Pasujące do mnie" },
+          ].map((view) => (
+            <button
+              key={view.label}
+              onClick={() =>
+                setFilters((prev) => ({
+                  ...prev,
+                  matchSkills: view.matchSkills,
+                }))
+              }
+              className={`whitespace-nowrap rounded px-3 py-1 ${
+                filters.matchSkills === view.matchSkills
+                  ? "bg-indigo-600 text-white"
+                  : "text-gray-700 hover:text-indigo-600"
+              }`}
+            >
+              {view.label}
+            </button>
+          ))}
         </div>
       </div>
 
-      {filteredOrders.length === 0 ? (
+      {filters.matchSkills && skills.length > 0 && (
+        <p className="text-sm text-gray-500 -mt-3 mb-6">
+          Najlepiej dopasowane na początku, według umiejętności:{" "}
+          {skills.join(", ")}
+        </p>
+      )}
+
+      {error !== null && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          Nie udało się załadować zleceń.
+        </div>
+      )}
+
+      {needsSkills ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            Nie masz jeszcze umiejętności w profilu
+          </h3>
+          <p className="text-gray-500 mb-4">
+            Dodaj je, a pokażemy zlecenia, które do nich pasują.
+          </p>
+          {user && (
+            <button
+              onClick={() => onProfileClick(user.user_id)}
+              className="btn-primary"
+            >
+              Uzupełnij profil
+            </button>
+          )}
+        </div>
+      ) : orders.length === 0 && isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : orders.length === 0 ? (
         <div className="text-center py-12">
           <svg
             className="w-12 h-12 mx-auto mb-4 text-gray-400"
@@ -711,22 +906,42 @@ function BrowseOrders({
             Brak zleceń
           </h3>
           <p className="text-gray-500">
-            {searchQuery
+            {filters.query ||
+            activeFilterCount > 0 ||
+            filters.category ||
+            filters.matchSkills
               ? "Nie znaleziono zleceń pasujących do wyszukiwania."
               : "Nie ma jeszcze żadnych zleceń."}
           </p>
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
-          {filteredOrders.map((order) => (
+          {orders.map((order) => (
             <OrderCard
               key={order.order_id}
               order={order}
               onProfileClick={onProfileClick}
+              matchedSkills={
+                filters.matchSkills
+                  ? matchSkills(order, skills).matched
+                  : undefined
+              }
             />
           ))}
         </div>
       )}
+
+      {orders.length > 0 && hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-8">
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          ) : (
+            <button onClick={loadMore} className="btn-secondary">
+              Załaduj więcej
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -735,56 +950,22 @@ function BrowseOrders({
 function OrderCard({
   order,
   onProfileClick,
+  actions,
+  matchedSkills,
 }: {
   order: Order;
   onProfileClick?: (userId: number) => void;
+  // Extra buttons next to the price, e.g. edit/delete in MyOrders
+  actions?: React.ReactNode;
+  // Skills of the current user the order matches, highlighted
+  matchedSkills?: string[];
 }) {
   const { user, token } = useAuth();
-  const [orderOwner, setOrderOwner] = useState<User | null>(null);
-
-  useEffect(() => {
-    if (order.user_id && token) {
-      fetchOrderOwner();
-    }
-  }, [order.user_id, token]);
-
-  const fetchOrderOwner = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/user/${order.user_id}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const ownerData = await response.json();
-        setOrderOwner(ownerData);
-      }
-    } catch (error) {
-      console.error("Error fetching order owner:", error);
-    }
-  };
-
-  const handleApply = async () => {
-    if (!user || !token) return;
-
-    try {
-      const response = await fetch(`${API_BASE}/offer`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ order_id: order.order_id }),
-      });
-
-      if (response.ok) {
-        alert("Aplikacja została wysłana!");
-      } else {
-        alert("Błąd podczas wysyłania aplikacji");
-      }
-    } catch (error) {
-      console.error("Error applying for order:", error);
-      alert("Błąd podczas wysyłania aplikacji");
-    }
-  };
+  const { data: orderOwner } = useEntity(
+    users,
+    order.user_id && token ? order.user_id : null,
+  );
+  const [showApplyForm, setShowApplyForm] = useState(false);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("pl-PL", {
@@ -817,11 +998,22 @@ function OrderCard({
           </div>
         )}
 
-        <h3 className="text-lg font-semibold text-gray-900 mb-2 line-clamp-2">
-          {order.order_name}
-        </h3>
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <h3 className="text-lg font-semibold text-gray-900 line-clamp-2">
+            <Link
+              to={`/orders/${order.order_id}`}
+              className="hover:text-indigo-600 transition-colors"
+            >
+              {order.order_name}
+            </Link>
+          </h3>
+          <OrderStatusBadge order={order} />
+        </div>
+        <div className="mb-3">
+          <OrderLabels order={order} matchedSkills={matchedSkills} />
+        </div>
         <p className="text-gray-600 mb-4 flex-1 text-sm line-clamp-3">
-          {order.order_desc}
+          {markdownExcerpt(order.order_desc)}
         </p>
 
         {order.image_urls.length > 0 && (
@@ -839,18 +1031,29 @@ function OrderCard({
           <span className="text-xl sm:text-2xl font-bold text-indigo-600">
             {order.price} zł
           </span>
-          <div className="flex space-x-2">
-            {user && user.user_id !== order.user_id && (
-              <button
-                onClick={handleApply}
-                className="btn-primary w-full sm:w-auto text-sm"
-              >
-                Aplikuj
-              </button>
-            )}
+          <div className="flex flex-wrap gap-2">
+            {user &&
+              user.user_id !== order.user_id &&
+              getOrderStatus(order) === "open" && (
+                <button
+                  onClick={() => setShowApplyForm(true)}
+                  className="btn-primary w-full sm:w-auto text-sm"
+                >
+                  Aplikuj
+                </button>
+              )}
+            {actions}
           </div>
         </div>
       </div>
+
+      {showApplyForm && (
+        <ApplyOfferModal
+          order={order}
+          onClose={() => setShowApplyForm(false)}
+          onSubmitted={() => setShowApplyForm(false)}
+        />
+      )}
     </div>
   );
 }
@@ -861,34 +1064,65 @@ function MyOrders({
 }: {
   onProfileClick: (userId: number) => void;
 }) {
-  const [myOrders, setMyOrders] = useState<Order[]>([]);
+  const [editingOrder, setEditingOrder] = useState<Order | null>(null);
   const { user, token } = useAuth();
+  const { data: myOrders = [] } = useList(
+    ordersByUser,
+    user && token ? user.user_id : null,
+  );
 
-  useEffect(() => {
-    if (user && token) {
-      fetchMyOrders();
+  const handleStatusChange = async (order: Order, status: OrderStatus) => {
+    const message =
+      status === "completed"
+        ? `Oznaczyć zlecenie "${order.order_name}" jako zakończone?`
+        : `Czy na pewno chcesz anulować zlecenie "${order.order_name}"? Oczekujące oferty zostaną odrzucone.`;
+    if (!confirm(message)) return;
+
+    try {
+      await updateOrderStatus(order.order_id, status);
+    } catch (error) {
+      console.error("Error updating order status:", error);
+      alert("Błąd podczas zmiany statusu zlecenia");
     }
-  }, [user, token]);
+  };
 
-  const fetchMyOrders = async () => {
-    if (!user || !token) return;
+  const handleDelete = async (order: Order) => {
+    // The backend refuses it, the accepted offer would vanish unnoticed
+    if (getOrderStatus(order) === "in_progress") {
+      alert(
+        `Zlecenie "${order.order_name}" jest w realizacji. Aby je usunąć, najpierw je anuluj. Praca wykonawcy, którego oferta została przyjęta, zostanie wtedy anulowana.`,
+      );
+      return;
+    }
 
+    let pendingCount = 0;
     try {
-      const response = await fetch(`${API_BASE}/orders/user/${user.user_id}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setMyOrders(data);
-      }
+      // Fetched again, an applicant may have just sent an offer
+      const ids = await offersByOrder.fetch(order.order_id);
+      const offers = offersByOrder.resolve(ids) ?? [];
+      pendingCount = offers.filter(isOfferNegotiable).length;
     } catch (error) {
-      console.error("Error fetching my orders:", error);
+      console.error("Error fetching order offers:", error);
+    }
+
+    const message =
+      pendingCount > 0
+        ? `Zlecenie "${order.order_name}" ma ${pendingCount} ${pendingCount === 1 ? "oczekującą ofertę" : "oczekujących ofert"}, które zostaną odrzucone, a wykonawcy dostaną powiadomienie. Czy na pewno chcesz je usunąć?`
+        : `Czy na pewno chcesz usunąć zlecenie "${order.order_name}"?`;
+    if (!confirm(message)) return;
+
+    try {
+      await deleteOrder(order.order_id);
+    } catch (error) {
+      console.error("Error deleting order:", error);
+      alert("Błąd podczas usuwania zlecenia");
     }
   };
 
   return (
     <div className="px-4 py-6 sm:px-0">
       <h2 className="text-2xl font-bold text-gray-900 mb-6">Moje zlecenia</h2>
+      {user && <OrderDrafts userId={user.user_id} />}
       {myOrders.length === 0 ? (
         <div className="text-center py-12">
           <svg
@@ -918,68 +1152,208 @@ function MyOrders({
               key={order.order_id}
               order={order}
               onProfileClick={onProfileClick}
+              actions={
+                <>
+                  {getOrderStatus(order) === "open" && (
+                    <button
+                      onClick={() => setEditingOrder(order)}
+                      className="btn-secondary text-sm"
+                    >
+                      Edytuj
+                    </button>
+                  )}
+                  {canTransitionOrder(getOrderStatus(order), "completed") && (
+                    <button
+                      onClick={() => handleStatusChange(order, "completed")}
+                      className="btn-primary text-sm"
+                    >
+                      Zakończ
+                    </button>
+                  )}
+                  {canTransitionOrder(getOrderStatus(order), "cancelled") && (
+                    <button
+                      onClick={() => handleStatusChange(order, "cancelled")}
+                      className="btn-secondary text-sm"
+                    >
+                      Anuluj
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(order)}
+                    className="btn-danger text-sm"
+                  >
+                    Usuń
+                  </button>
+                </>
+              }
             />
           ))}
         </div>
       )}
+
+      {editingOrder && (
+        <EditOrderModal
+          order={editingOrder}
+          onClose={() => setEditingOrder(null)}
+          onSaved={() => setEditingOrder(null)}
+        />
+      )}
     </div>
   );
 }
 
+// Delay after the last change before the draft is saved
+const DRAFT_SAVE_DELAY = 800;
+
 // Create Order Component
-function CreateOrder({ onOrderCreated }: { onOrderCreated: () => void }) {
+function CreateOrder({
+  draftId: requestedDraftId,
+  onOrderCreated,
+}: {
+  // Opened from the drafts in MyOrders, the latest draft is continued
+  // without one
+  draftId: string | null;
+  onOrderCreated: () => void;
+}) {
   const [orderName, setOrderName] = useState("");
   const [orderDesc, setOrderDesc] = useState("");
   const [price, setPrice] = useState("");
-  const [images, setImages] = useState<string[]>([]);
+  const [category, setCategory] = useState<OrderCategory | "">("");
+  const [tags, setTags] = useState<string[]>([]);
+  const images = useOrderImages();
   const [isLoading, setIsLoading] = useState(false);
-  const { token } = useAuth();
+  const { token, user } = useAuth();
+  const userId = user?.user_id ?? null;
+  // null until the draft to continue has been looked up
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+  // Saves the form as it is now, replaced on every render
+  const saveDraftRef = useRef<() => void>(() => {});
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files) return;
-
-    Array.from(files).forEach((file) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = reader.result as string;
-        const base64Data = base64.split(",")[1]; // Remove data URL prefix
-        setImages((prev) => [...prev, base64Data]);
-      };
-      reader.readAsDataURL(file);
+  useEffect(() => {
+    if (userId === null) return;
+    let cancelled = false;
+    const restore = async () => {
+      const draft = requestedDraftId
+        ? await getDraft(requestedDraftId)
+        : ((await loadDrafts(userId))[0] ?? null);
+      if (cancelled) return;
+      if (draft?.user_id !== userId) {
+        setDraftId(createDraftId());
+        return;
+      }
+      setOrderName(draft.order_name);
+      setOrderDesc(draft.order_desc);
+      setPrice(draft.price);
+      setCategory(draft.category ?? "");
+      setTags(draft.tags ?? []);
+      images.restoreDraft(draft.images);
+      setDraftSavedAt(draft.updated_at);
+      setIsRestored(true);
+      setDraftId(draft.draft_id);
+    };
+    restore().catch((error) => {
+      console.error("Error restoring draft:", error);
+      if (!cancelled) setDraftId(createDraftId());
     });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const isEmpty =
+    !orderName.trim() &&
+    !orderDesc.trim() &&
+    !price &&
+    !category &&
+    tags.length === 0 &&
+    images.uploads.length === 0;
+  saveDraftRef.current = () => {
+    if (draftId === null || userId === null) return;
+    const draft: OrderDraft = {
+      draft_id: draftId,
+      user_id: userId,
+      order_name: orderName,
+      order_desc: orderDesc,
+      price,
+      category: category || undefined,
+      tags,
+      images: images.draftImages,
+      updated_at: new Date().toISOString(),
+    };
+    const saved = isEmpty
+      ? deleteDraft(draft)
+      : saveDraft(draft).then(() => setDraftSavedAt(draft.updated_at));
+    saved.catch((error) => console.error("Error saving draft:", error));
+  };
+
+  // Photos count once processed or uploaded, not on every progress update
+  const imagesKey = images.uploads
+    .map((item) => `${item.id}:${item.status}`)
+    .join(",");
+  useEffect(() => {
+    if (draftId === null) return;
+    const timeout = setTimeout(() => saveDraftRef.current(), DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [draftId, orderName, orderDesc, price, category, tags, imagesKey]);
+
+  // Changes made right before leaving the view or logging out
+  useEffect(() => () => saveDraftRef.current(), []);
+
+  const resetForm = () => {
+    setOrderName("");
+    setOrderDesc("");
+    setPrice("");
+    setCategory("");
+    setTags([]);
+    images.clear();
+    setDraftId(createDraftId());
+    setDraftSavedAt(null);
+    setIsRestored(false);
+    if (requestedDraftId) navigate("/create", { replace: true });
+  };
+
+  // The restored draft stays in MyOrders
+  const handleStartOver = () => {
+    saveDraftRef.current();
+    resetForm();
+  };
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) images.add(e.target.files);
+    // Lets the same file be picked again after removing it
+    e.target.value = "";
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!token) return;
+    // The category is required by the form
+    if (!token || !category) return;
+    if (images.hasFailed) {
+      alert("Ponów lub usuń zdjęcia, których nie udało się wysłać");
+      return;
+    }
 
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/order`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          order_name: orderName,
-          order_desc: orderDesc,
-          price: parseFloat(price),
-          images,
-        }),
+      await createOrder({
+        order_name: orderName,
+        order_desc: orderDesc,
+        price: parseFloat(price),
+        image_urls: images.urls,
+        category,
+        tags,
       });
-
-      if (response.ok) {
-        setOrderName("");
-        setOrderDesc("");
-        setPrice("");
-        setImages([]);
-        onOrderCreated();
-        alert("Zlecenie zostało utworzone!");
-      } else {
-        alert("Błąd podczas tworzenia zlecenia");
+      if (draftId !== null && userId !== null) {
+        await deleteDraft({ draft_id: draftId, user_id: userId }).catch(
+          (error) => console.error("Error deleting draft:", error),
+        );
       }
+
+      resetForm();
+      onOrderCreated();
+      alert("Zlecenie zostało utworzone!");
     } catch (error) {
       console.error("Error creating order:", error);
       alert("Błąd podczas tworzenia zlecenia");
@@ -987,12 +1361,39 @@ function CreateOrder({ onOrderCreated }: { onOrderCreated: () => void }) {
     setIsLoading(false);
   };
 
+  if (draftId === null) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="px-4 py-6 sm:px-0">
-      <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-6">
-        Dodaj nowe zlecenie
-      </h2>
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-6">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+          Dodaj nowe zlecenie
+        </h2>
+        {draftSavedAt && (
+          <span className="text-xs text-gray-500">
+            Szkic zapisany {formatDraftTime(draftSavedAt)}
+          </span>
+        )}
+      </div>
       <div className="max-w-2xl mx-auto">
+        {isRestored && (
+          <div className="bg-blue-50 border border-blue-300 text-blue-800 px-4 py-3 rounded mb-6 text-sm flex flex-wrap items-center justify-between gap-2">
+            <span>Przywrócono niedokończone zlecenie ze szkicu.</span>
+            <button
+              type="button"
+              onClick={handleStartOver}
+              className="font-medium underline"
+            >
+              Zacznij nowe
+            </button>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
             <label className="block text-sm font-medium text-gray-700">
@@ -1010,13 +1411,14 @@ function CreateOrder({ onOrderCreated }: { onOrderCreated: () => void }) {
             <label className="block text-sm font-medium text-gray-700">
               Opis
             </label>
-            <textarea
-              required
-              rows={4}
-              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-              value={orderDesc}
-              onChange={(e) => setOrderDesc(e.target.value)}
-            />
+            <div className="mt-1">
+              <MarkdownEditor
+                required
+                className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                value={orderDesc}
+                onChange={setOrderDesc}
+              />
+            </div>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700">
@@ -1031,6 +1433,38 @@ function CreateOrder({ onOrderCreated }: { onOrderCreated: () => void }) {
               onChange={(e) => setPrice(e.target.value)}
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Kategoria
+            </label>
+            <select
+              required
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 bg-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as OrderCategory)}
+            >
+              <option value="" disabled>
+                Wybierz kategorię
+              </option>
+              {ORDER_CATEGORIES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Tagi
+            </label>
+            <div className="mt-1">
+              <TagInput tags={tags} onChange={setTags} />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Np. esp32, lutowanie, petg. Pomagają wykonawcom z pasującymi
+              umiejętnościami znaleźć zlecenie.
+            </p>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700">
               Zdjęcia
@@ -1038,14 +1472,26 @@ function CreateOrder({ onOrderCreated }: { onOrderCreated: () => void }) {
             <input
               type="file"
               multiple
-              accept="image/*"
+              accept={ACCEPTED_IMAGE_TYPES.join(",")}
               onChange={handleImageUpload}
               className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Do {MAX_ORDER_IMAGES} zdjęć JPEG, PNG, WebP lub GIF. Zdjęcia są
+              zmniejszane, a dane o lokalizacji usuwane przed wysłaniem.
+            </p>
+            <div className="mt-3">
+              <UploadPreviews
+                uploads={images.uploads}
+                onRemove={images.remove}
+                onRetry={images.retry}
+                onMove={images.move}
+              />
+            </div>
           </div>
           <button
             type="submit"
-            disabled={isLoading}
+            disabled={isLoading || images.isBusy}
             className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
           >
             {isLoading ? (
@@ -0,0 +1,45 @@
+import React from "react";
+import { ApiError, type OfferTerms } from "../lib/api";
+import { createOffer } from "../lib/store";
+import type { Order } from "../types";
+import OfferTermsModal from "./OfferTermsModal";
+
+interface ApplyOfferModalProps {
+  order: Order;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+export function ApplyOfferModal({
+  order,
+  onClose,
+  onSubmitted,
+}: ApplyOfferModalProps) {
+  const handleSubmit = async (terms: OfferTerms) => {
+    try {
+      await createOffer({ order_id: order.order_id, ...terms });
+      alert("Aplikacja została wysłana!");
+      onSubmitted();
+    } catch (error) {
+      console.error("Error applying for order:", error);
+      alert(
+        error instanceof ApiError && error.status === 409
+          ? "Nie można już aplikować na to zlecenie"
+          : "Błąd podczas wysyłania aplikacji",
+      );
+    }
+  };
+
+  return (
+    <OfferTermsModal
+      title="Aplikuj na zlecenie"
+      subtitle={`${order.order_name} · budżet ${order.price} zł`}
+      initialTerms={{ proposed_price: order.price }}
+      submitLabel="Wyślij ofertę"
+      onClose={onClose}
+      onSubmit={handleSubmit}
+    />
+  );
+}
+
+export default ApplyOfferModal;
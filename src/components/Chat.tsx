@@ -1,143 +1,230 @@
-import React, { useState, useEffect, useRef } from "react";
-
-interface Message {
-  message_id: number;
-  sender_id: number;
-  receiver_id: number;
-  content: string;
-  sent_at: string;
-}
-
-interface User {
-  user_id: number;
-  username: string;
-  email: string;
-  password_hash: string;
-  created_at: string;
-}
+import React, { useState, useEffect, useLayoutEffect, useRef } from "react";
+import {
+  chatConnection,
+  createClientId,
+  isChatMessage,
+  isSocketEvent,
+} from "../lib/chatConnection";
+import { api } from "../lib/api";
+import { fileUploader } from "../lib/fileUploader";
+import { setActiveConversation } from "../lib/notifications";
+import { users as userStore } from "../lib/store";
+import { MAX_ATTACHMENT_SIZE, formatFileSize } from "../lib/uploads";
+import { useEntities } from "../hooks/useResource";
+import { useChatHistory } from "../hooks/useChatHistory";
+import { useChatPresence } from "../hooks/useChatPresence";
+import { useConnectionState } from "../hooks/useConnectionState";
+import { useFileUploads } from "../hooks/useFileUploads";
+import { useNotifications } from "../hooks/useNotifications";
+import { useTypingNotifier } from "../hooks/useTypingNotifier";
+import MessageAttachments from "./MessageAttachments";
+import UploadPreviews from "./UploadPreviews";
+import type { Attachment, Message, ReceiptEvent } from "../types";
+
+// Distance from the top of the message list that loads older messages
+const LOAD_OLDER_THRESHOLD = 40;
 
 interface ChatProps {
   currentUserId: number;
-  token: string;
+  selectedUserId: number | null;
+  onSelectUser: (userId: number) => void;
   onClose: () => void;
 }
 
-const API_BASE = "https://techni-zlecenia-4wdh.shuttle.app";
-const WS_BASE = "ws://techni-zlecenia-4wdh.shuttle.app";
-
-export function Chat({ currentUserId, token, onClose }: ChatProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [users, setUsers] = useState<User[]>([]);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+export function Chat({
+  currentUserId,
+  selectedUserId,
+  onSelectUser,
+  onClose,
+}: ChatProps) {
+  const {
+    conversations,
+    isLoadingConversations,
+    getThread,
+    loadOlder,
+    receive,
+    applyReceipt,
+  } = useChatHistory(currentUserId);
+  const { status, outbox } = useConnectionState(chatConnection);
+  const { unread } = useNotifications();
+  const isConnected = status === "open";
   const [newMessage, setNewMessage] = useState("");
-  const [isConnected, setIsConnected] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
+  const attachments = useFileUploads<Attachment>({
+    upload: async (file, data, onProgress, signal) => {
+      const url = await fileUploader.upload(data, {
+        name: file.name,
+        onProgress,
+        signal,
+      });
+      return api.createAttachment({
+        name: file.name,
+        mime_type: file.type || "application/octet-stream",
+        size: file.size,
+        url,
+      });
+    },
+  });
+  const uploadedAttachments = attachments.uploads.flatMap((item) =>
+    item.result ? [item.result] : [],
+  );
+  const canSend =
+    (!!newMessage.trim() || uploadedAttachments.length > 0) &&
+    !attachments.isBusy;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Scroll position from before older messages were prepended
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(
+    null,
+  );
+  const lastMessageKeyRef = useRef<string | null>(null);
+
+  // A conversation opened from a profile or an order may have no messages
+  // yet, list it on top until it has some
+  const conversationList: { user_id: number; last_message?: Message }[] =
+    selectedUserId !== null &&
+    !conversations.some((c) => c.user_id === selectedUserId)
+      ? [{ user_id: selectedUserId }, ...conversations]
+      : conversations;
+  const conversationUserIds = conversationList.map(
+    (conversation) => conversation.user_id,
+  );
+  const users = useEntities(userStore, conversationUserIds);
+  const { presence, typing } = useChatPresence(conversationUserIds);
+  const { onType, stop: stopTyping } = useTypingNotifier(selectedUserId);
+  const selectedUser =
+    selectedUserId !== null ? (users[selectedUserId] ?? null) : null;
+  const thread = getThread(selectedUserId);
+  const userMessages = selectedUser ? thread.messages : [];
+  // Sent by the user and not acknowledged by the server yet
+  const pendingMessages = outbox.filter(
+    (entry) => entry.payload.receiver_id === selectedUserId,
+  );
+
+  // The connection is opened by AuthProvider for the whole session
+  useEffect(
+    () =>
+      chatConnection.subscribe((data) => {
+        if (isChatMessage(data)) receive(data);
+        else if (isSocketEvent<ReceiptEvent>(data, "receipt")) {
+          applyReceipt(data);
+        }
+      }),
+    [receive, applyReceipt],
+  );
 
+  // Messages of the open conversation don't count as unread
   useEffect(() => {
-    connectWebSocket();
-    fetchUsers();
+    setActiveConversation(selectedUserId);
+    return () => setActiveConversation(null);
+  }, [selectedUserId]);
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
-  }, [token]);
+  // Picked files belong to the conversation they were picked in
+  useEffect(() => attachments.clear(), [selectedUserId]);
 
+  // The newest page is loaded when a conversation is first opened
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
-
-  const connectWebSocket = () => {
-    try {
-      const ws = new WebSocket(`${WS_BASE}/messages/listen?token=${token}`);
-
-      ws.onopen = () => {
-        console.log("WebSocket connected");
-        setIsConnected(true);
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          setMessages((prev) => {
-            // Avoid duplicates
-            if (prev.some((m) => m.message_id === message.message_id)) {
-              return prev;
-            }
-            return [...prev, message].sort(
-              (a, b) =>
-                new Date(a.sent_at).getTime() - new Date(b.sent_at).getTime(),
-            );
-          });
-        } catch (error) {
-          console.error("Error parsing message:", error);
-        }
-      };
-
-      ws.onclose = () => {
-        console.log("WebSocket disconnected");
-        setIsConnected(false);
-        // Try to reconnect after 3 seconds
-        setTimeout(() => connectWebSocket(), 3000);
-      };
-
-      ws.onerror = (error) => {
-        console.error("WebSocket error:", error);
-        setIsConnected(false);
-      };
-
-      wsRef.current = ws;
-    } catch (error) {
-      console.error("Failed to connect WebSocket:", error);
+    if (
+      selectedUserId !== null &&
+      getThread(selectedUserId).messages.length === 0
+    ) {
+      loadOlder(selectedUserId);
+    }
+  }, [selectedUserId]);
+
+  // New messages scroll to the bottom, older ones prepended at the top keep
+  // the visible messages in place
+  useLayoutEffect(() => {
+    const lastPending = pendingMessages[pendingMessages.length - 1];
+    const lastMessage = userMessages[userMessages.length - 1];
+    const lastKey = lastPending
+      ? `pending-${lastPending.id}`
+      : lastMessage
+        ? `message-${lastMessage.message_id}`
+        : null;
+    const anchor = scrollAnchorRef.current;
+    if (lastKey !== lastMessageKeyRef.current) {
+      lastMessageKeyRef.current = lastKey;
+      scrollAnchorRef.current = null;
+      scrollToBottom();
+    } else if (anchor && listRef.current) {
+      listRef.current.scrollTop =
+        listRef.current.scrollHeight - anchor.height + anchor.top;
+      scrollAnchorRef.current = null;
     }
+  }, [userMessages, pendingMessages.length]);
+
+  // Keeps the typing indicator in view, unless older messages are being read
+  const isSelectedTyping = selectedUserId !== null && !!typing[selectedUserId];
+  useEffect(() => {
+    const list = listRef.current;
+    if (
+      isSelectedTyping &&
+      list &&
+      list.scrollHeight - list.scrollTop - list.clientHeight < 100
+    ) {
+      scrollToBottom();
+    }
+  }, [isSelectedTyping]);
+
+  const handleLoadOlder = () => {
+    const list = listRef.current;
+    if (selectedUserId === null || !list) return;
+    scrollAnchorRef.current = {
+      height: list.scrollHeight,
+      top: list.scrollTop,
+    };
+    loadOlder(selectedUserId);
   };
 
-  const fetchUsers = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/user/search?query=`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setUsers(data.filter((user: User) => user.user_id !== currentUserId));
-      }
-    } catch (error) {
-      console.error("Error fetching users:", error);
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (
+      e.currentTarget.scrollTop < LOAD_OLDER_THRESHOLD &&
+      thread.hasMore &&
+      !thread.isLoading &&
+      userMessages.length > 0
+    ) {
+      handleLoadOlder();
     }
   };
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !selectedUser || !wsRef.current) return;
+    if (!canSend || !selectedUser) return;
 
-    const messageData = {
+    stopTyping();
+    // Queued while offline, sent once the connection is back
+    const clientId = createClientId();
+    chatConnection.send(clientId, {
       sender_id: currentUserId,
       receiver_id: selectedUser.user_id,
       content: newMessage.trim(),
-    };
+      client_id: clientId,
+      ...(uploadedAttachments.length > 0 && {
+        attachment_ids: uploadedAttachments.map((a) => a.attachment_id),
+      }),
+    });
+    setNewMessage("");
+    attachments.clear();
+  };
 
-    try {
-      wsRef.current.send(JSON.stringify(messageData));
-      setNewMessage("");
-    } catch (error) {
-      console.error("Error sending message:", error);
+  const handleAttach = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      const names = tooLarge.map((file) => file.name).join(", ");
+      alert(
+        `Maksymalny rozmiar pliku to ${formatFileSize(MAX_ATTACHMENT_SIZE)}: ${names}`,
+      );
     }
+    attachments.add(files.filter((file) => file.size <= MAX_ATTACHMENT_SIZE));
   };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  const getMessagesWithUser = (userId: number) => {
-    return messages.filter(
-      (msg) =>
-        (msg.sender_id === currentUserId && msg.receiver_id === userId) ||
-        (msg.sender_id === userId && msg.receiver_id === currentUserId),
-    );
-  };
-
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString("pl-PL", {
@@ -164,9 +251,51 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
     }
   };
 
-  const userMessages = selectedUser
-    ? getMessagesWithUser(selectedUser.user_id)
-    : [];
+  const formatLastSeen = (dateString: string) => {
+    const minutes = Math.floor(
+      (Date.now() - new Date(dateString).getTime()) / 60_000,
+    );
+    if (minutes < 1) return "przed chwilą";
+    if (minutes < 60) return `${minutes} min temu`;
+    const day = formatDate(dateString).toLowerCase();
+    return `${day} o ${formatTime(dateString)}`;
+  };
+
+  // "online", "pisze..." or when the user was last seen
+  const getStatusText = (userId: number) => {
+    if (typing[userId]) return "pisze...";
+    const userPresence = presence[userId];
+    if (userPresence?.online) return "online";
+    if (userPresence?.last_seen) {
+      return `ostatnio online ${formatLastSeen(userPresence.last_seen)}`;
+    }
+    return null;
+  };
+
+  // Sent, delivered to the receiver or read by them
+  const renderTicks = (message: Message) => {
+    if (message.read_at) {
+      return (
+        <span
+          className="text-white"
+          title={`Przeczytano ${formatTime(message.read_at)}`}
+        >
+          {" "}
+          ✓✓
+        </span>
+      );
+    }
+    if (message.delivered_at) return <span title="Dostarczono"> ✓✓</span>;
+    return <span title="Wysłano"> ✓</span>;
+  };
+
+  // Time for today's messages, the date otherwise
+  const formatPreviewTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toDateString() === new Date().toDateString()
+      ? formatTime(dateString)
+      : formatDate(dateString);
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -204,40 +333,86 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
           </div>
 
           <div className="flex-1 overflow-y-auto">
-            {users.length === 0 ? (
-              <div className="p-4 text-center text-gray-500">
-                Brak użytkowników
+            {isLoadingConversations && conversationList.length === 0 ? (
+              <div className="flex justify-center p-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
               </div>
+            ) : conversationList.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">Brak rozmów</div>
             ) : (
-              users.map((user) => {
-                const userMsgs = getMessagesWithUser(user.user_id);
-                const lastMessage = userMsgs[userMsgs.length - 1];
+              conversationList.map(({ user_id, last_message: lastMessage }) => {
+                const user = users[user_id];
+                const unreadCount = unread[user_id] ?? 0;
+                const userPresence = presence[user_id];
 
                 return (
                   <div
-                    key={user.user_id}
-                    onClick={() => setSelectedUser(user)}
+                    key={user_id}
+                    onClick={() => onSelectUser(user_id)}
                     className={`p-3 border-b border-gray-200 cursor-pointer hover:bg-gray-100 transition-colors ${
-                      selectedUser?.user_id === user.user_id
+                      selectedUserId === user_id
                         ? "bg-indigo-50 border-indigo-200"
                         : ""
                     }`}
                   >
                     <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-indigo-500 rounded-full flex items-center justify-center text-white font-semibold">
-                        {user.username.charAt(0).toUpperCase()}
+                      <div
+                        className="relative flex-shrink-0"
+                        title={getStatusText(user_id) ?? undefined}
+                      >
+                        <div className="w-10 h-10 bg-indigo-500 rounded-full flex items-center justify-center text-white font-semibold">
+                          {user?.username.charAt(0).toUpperCase()}
+                        </div>
+                        {userPresence && (
+                          <span
+                            className={`absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-gray-50 ${
+                              userPresence.online
+                                ? "bg-green-400"
+                                : "bg-gray-300"
+                            }`}
+                          />
+                        )}
                       </div>
                       <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate">
-                          {user.username}
-                        </p>
-                        {lastMessage && (
-                          <p className="text-xs text-gray-500 truncate">
-                            {lastMessage.sender_id === currentUserId
-                              ? "Ty: "
-                              : ""}
-                            {lastMessage.content}
+                        <div className="flex justify-between items-baseline space-x-2">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {user?.username ?? "Ładowanie..."}
+                          </p>
+                          {lastMessage && (
+                            <span className="text-xs text-gray-400 flex-shrink-0">
+                              {formatPreviewTime(lastMessage.sent_at)}
+                            </span>
+                          )}
+                        </div>
+                        {typing[user_id] ? (
+                          <p className="text-xs text-indigo-600 italic">
+                            pisze...
                           </p>
+                        ) : (
+                          lastMessage && (
+                            <div className="flex justify-between items-center space-x-2">
+                              <p
+                                className={`text-xs truncate ${
+                                  unreadCount > 0
+                                    ? "text-gray-900 font-semibold"
+                                    : "text-gray-500"
+                                }`}
+                              >
+                                {lastMessage.sender_id === currentUserId
+                                  ? "Ty: "
+                                  : ""}
+                                {lastMessage.content ||
+                                  (lastMessage.attachments?.length
+                                    ? "📎 Załącznik"
+                                    : "")}
+                              </p>
+                              {unreadCount > 0 && (
+                                <span className="min-w-[1.25rem] h-5 px-1 rounded-full bg-indigo-600 text-white text-xs font-medium flex items-center justify-center flex-shrink-0">
+                                  {unreadCount}
+                                </span>
+                              )}
+                            </div>
+                          )
                         )}
                       </div>
                     </div>
@@ -258,18 +433,55 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
                   <div className="w-8 h-8 bg-indigo-500 rounded-full flex items-center justify-center text-white font-semibold">
                     {selectedUser.username.charAt(0).toUpperCase()}
                   </div>
-                  <h4 className="text-lg font-semibold text-gray-900">
-                    {selectedUser.username}
-                  </h4>
+                  <div>
+                    <h4 className="text-lg font-semibold text-gray-900">
+                      {selectedUser.username}
+                    </h4>
+                    {getStatusText(selectedUser.user_id) && (
+                      <p
+                        className={`text-xs ${
+                          presence[selectedUser.user_id]?.online ||
+                          typing[selectedUser.user_id]
+                            ? "text-green-600"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        {getStatusText(selectedUser.user_id)}
+                      </p>
+                    )}
+                  </div>
                 </div>
               </div>
 
               {/* Messages */}
-              <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                {userMessages.length === 0 ? (
-                  <div className="text-center text-gray-500 mt-8">
-                    Brak wiadomości. Napisz pierwszą wiadomość!
+              <div
+                ref={listRef}
+                onScroll={handleScroll}
+                className="flex-1 overflow-y-auto p-4 space-y-4"
+              >
+                {thread.isLoading ? (
+                  <div className="flex justify-center">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
                   </div>
+                ) : (
+                  thread.hasMore &&
+                  userMessages.length > 0 && (
+                    <div className="text-center">
+                      <button
+                        onClick={handleLoadOlder}
+                        className="text-xs text-indigo-600 hover:text-indigo-800"
+                      >
+                        Wczytaj starsze wiadomości
+                      </button>
+                    </div>
+                  )
+                )}
+                {userMessages.length === 0 && pendingMessages.length === 0 ? (
+                  !thread.isLoading && (
+                    <div className="text-center text-gray-500 mt-8">
+                      Brak wiadomości. Napisz pierwszą wiadomość!
+                    </div>
+                  )
                 ) : (
                   userMessages.reduce((acc, message, index) => {
                     const currentDate = formatDate(message.sent_at);
@@ -307,7 +519,15 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
                               : "message-received"
                           }`}
                         >
-                          <p className="text-sm">{message.content}</p>
+                          {message.attachments?.length ? (
+                            <MessageAttachments
+                              attachments={message.attachments}
+                              isOwn={message.sender_id === currentUserId}
+                            />
+                          ) : null}
+                          {message.content && (
+                            <p className="text-sm">{message.content}</p>
+                          )}
                           <p
                             className={`text-xs mt-1 ${
                               message.sender_id === currentUserId
@@ -316,6 +536,8 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
                             }`}
                           >
                             {formatTime(message.sent_at)}
+                            {message.sender_id === currentUserId &&
+                              renderTicks(message)}
                           </p>
                         </div>
                       </div>,
@@ -324,6 +546,57 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
                     return acc;
                   }, [] as React.ReactNode[])
                 )}
+                {pendingMessages.map((entry) => (
+                  <div key={entry.id} className="flex justify-end">
+                    <div
+                      className={`message-bubble ${
+                        entry.status === "failed"
+                          ? "message-failed"
+                          : "message-sent message-pending"
+                      }`}
+                    >
+                      {entry.payload.attachment_ids?.length ? (
+                        <p className="text-sm">
+                          📎 Załączniki:{" "}
+                          {entry.payload.attachment_ids.length}
+                        </p>
+                      ) : null}
+                      {entry.payload.content && (
+                        <p className="text-sm">{entry.payload.content}</p>
+                      )}
+                      {entry.status === "failed" ? (
+                        <div className="flex items-center justify-end space-x-2 text-xs mt-1">
+                          <span className="text-red-100">Nie wysłano</span>
+                          <button
+                            type="button"
+                            onClick={() => chatConnection.retry(entry.id)}
+                            className="underline"
+                          >
+                            Ponów
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => chatConnection.discard(entry.id)}
+                            className="underline"
+                          >
+                            Usuń
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="text-xs mt-1 text-indigo-200">
+                          Wysyłanie...
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {typing[selectedUser.user_id] && (
+                  <div className="flex justify-start">
+                    <div className="message-bubble message-received text-sm italic text-gray-500">
+                      {selectedUser.username} pisze...
+                    </div>
+                  </div>
+                )}
                 <div ref={messagesEndRef} />
               </div>
 
@@ -332,18 +605,58 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
                 onSubmit={sendMessage}
                 className="p-4 border-t border-gray-200 bg-gray-50"
               >
+                {attachments.uploads.length > 0 && (
+                  <div className="mb-3">
+                    <UploadPreviews
+                      uploads={attachments.uploads}
+                      onRemove={attachments.remove}
+                      onRetry={attachments.retry}
+                    />
+                  </div>
+                )}
                 <div className="flex space-x-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    onChange={handleAttach}
+                    className="hidden"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-gray-500 hover:text-indigo-600 px-2 rounded-lg transition-colors"
+                    title="Dodaj załącznik"
+                    aria-label="Dodaj załącznik"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+                      />
+                    </svg>
+                  </button>
                   <input
                     type="text"
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => {
+                      setNewMessage(e.target.value);
+                      if (e.target.value.trim()) onType();
+                      else stopTyping();
+                    }}
                     placeholder="Napisz wiadomość..."
                     className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    disabled={!isConnected}
                   />
                   <button
                     type="submit"
-                    disabled={!newMessage.trim() || !isConnected}
+                    disabled={!canSend}
                     className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
                   >
                     <svg
@@ -363,7 +676,9 @@ export function Chat({ currentUserId, token, onClose }: ChatProps) {
                 </div>
                 {!isConnected && (
                   <p className="text-xs text-red-500 mt-1">
-                    Połączenie przerwane. Próba ponownego połączenia...
+                    {status === "connecting"
+                      ? "Łączenie..."
+                      : "Połączenie przerwane. Wiadomości zostaną wysłane po ponownym połączeniu."}
                   </p>
                 )}
               </form>
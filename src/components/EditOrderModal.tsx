@@ -0,0 +1,243 @@
+import React, { useState } from "react";
+import { ApiError } from "../lib/api";
+import { ACCEPTED_IMAGE_TYPES, MAX_ORDER_IMAGES } from "../lib/images";
+import { isOfferNegotiable } from "../lib/offerStatus";
+import { getOrderCategory, ORDER_CATEGORIES } from "../lib/orderCategories";
+import { getOrderStatus } from "../lib/orderStatus";
+import { offersByOrder, updateOrder } from "../lib/store";
+import { useOrderImages } from "../hooks/useOrderImages";
+import { useList } from "../hooks/useResource";
+import MarkdownEditor from "./MarkdownEditor";
+import TagInput from "./TagInput";
+import UploadPreviews from "./UploadPreviews";
+import type { Order, OrderCategory } from "../types";
+
+interface EditOrderModalProps {
+  order: Order;
+  onClose: () => void;
+  onSaved: (order: Order) => void;
+}
+
+export function EditOrderModal({
+  order,
+  onClose,
+  onSaved,
+}: EditOrderModalProps) {
+  const [orderName, setOrderName] = useState(order.order_name);
+  const [orderDesc, setOrderDesc] = useState(order.order_desc);
+  const [price, setPrice] = useState(String(order.price));
+  const [category, setCategory] = useState(getOrderCategory(order));
+  const [tags, setTags] = useState(order.tags ?? []);
+  const [keptImages, setKeptImages] = useState<string[]>(order.image_urls);
+  const newImages = useOrderImages(keptImages.length);
+  const { data: offers = [] } = useList(offersByOrder, order.order_id);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The agreed terms can't change once an offer was accepted
+  const isLocked =
+    getOrderStatus(order) !== "open" ||
+    offers.some((offer) => offer.status === "accepted");
+  const pendingCount = offers.filter(isOfferNegotiable).length;
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) newImages.add(e.target.files);
+    e.target.value = "";
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newImages.hasFailed) {
+      alert("Ponów lub usuń zdjęcia, których nie udało się wysłać");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await updateOrder(order.order_id, {
+        order_name: orderName,
+        order_desc: orderDesc,
+        price: parseFloat(price),
+        image_urls: [...keptImages, ...newImages.urls],
+        category,
+        tags,
+      });
+      onSaved(saved);
+    } catch (error) {
+      console.error("Error updating order:", error);
+      alert(
+        error instanceof ApiError && error.status === 409
+          ? "Można edytować tylko otwarte zlecenia"
+          : "Błąd podczas zapisywania zlecenia",
+      );
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Edytuj zlecenie
+        </h3>
+
+        {isLocked ? (
+          <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded mb-4 text-sm">
+            To zlecenie nie jest już otwarte, więc jego warunki nie mogą zostać
+            zmienione.
+          </div>
+        ) : (
+          pendingCount > 0 && (
+            <div className="bg-blue-50 border border-blue-300 text-blue-800 px-4 py-3 rounded mb-4 text-sm">
+              Na to zlecenie czeka {pendingCount}{" "}
+              {pendingCount === 1 ? "oferta" : "ofert"}. Wykonawcy zobaczą
+              zaktualizowane warunki.
+            </div>
+          )
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <fieldset
+            disabled={isLocked || isSaving}
+            className="space-y-4"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nazwa zlecenia
+              </label>
+              <input
+                type="text"
+                required
+                className="input-field"
+                value={orderName}
+                onChange={(e) => setOrderName(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Opis
+              </label>
+              <MarkdownEditor
+                required
+                className="input-field resize-y"
+                value={orderDesc}
+                onChange={setOrderDesc}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Cena (PLN)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                required
+                className="input-field"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Kategoria
+              </label>
+              <select
+                className="input-field"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as OrderCategory)}
+              >
+                {ORDER_CATEGORIES.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tagi
+              </label>
+              <TagInput tags={tags} onChange={setTags} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Zdjęcia
+              </label>
+              {keptImages.length > 0 && (
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mb-2">
+                  {keptImages.map((url) => (
+                    <ImageThumbnail
+                      key={url}
+                      src={url}
+                      onRemove={() =>
+                        setKeptImages((prev) => prev.filter((u) => u !== url))
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+              {/* New photos are added after the kept ones */}
+              {newImages.uploads.length > 0 && (
+                <div className="mb-2">
+                  <UploadPreviews
+                    uploads={newImages.uploads}
+                    onRemove={newImages.remove}
+                    onRetry={newImages.retry}
+                    onMove={newImages.move}
+                  />
+                </div>
+              )}
+              <input
+                type="file"
+                multiple
+                accept={ACCEPTED_IMAGE_TYPES.join(",")}
+                onChange={handleImageUpload}
+                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Do {MAX_ORDER_IMAGES} zdjęć JPEG, PNG, WebP lub GIF. Zdjęcia są
+                zmniejszane, a dane o lokalizacji usuwane przed wysłaniem.
+              </p>
+            </div>
+          </fieldset>
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Anuluj
+            </button>
+            <button
+              type="submit"
+              disabled={isLocked || isSaving || newImages.isBusy}
+              className="btn-primary disabled:opacity-50"
+            >
+              {isSaving ? "Zapisywanie..." : "Zapisz zmiany"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function ImageThumbnail({
+  src,
+  onRemove,
+}: {
+  src: string;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="relative">
+      <img src={src} alt="" className="w-full h-20 object-cover rounded-md" />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute top-1 right-1 w-6 h-6 bg-black bg-opacity-60 text-white rounded-full text-xs hover:bg-opacity-80"
+        title="Usuń zdjęcie"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+export default EditOrderModal;
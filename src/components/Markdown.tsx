@@ -0,0 +1,128 @@
+import React, { useMemo } from "react";
+import { parseMarkdown, type Block, type Inline } from "../lib/markdown";
+
+// Markdown rendered as React elements, styled by the .markdown class. Safe
+// for text from other users, see lib/markdown.ts.
+export function Markdown({
+  source,
+  className = "",
+}: {
+  source: string;
+  className?: string;
+}) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className={`markdown ${className}`.trim()}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+}
+
+function renderInline(node: Inline, key: number): React.ReactNode {
+  switch (node.type) {
+    case "text":
+      return node.text;
+    case "code":
+      return <code key={key}>{node.text}</code>;
+    case "strong":
+      return <strong key={key}>{node.children.map(renderInline)}</strong>;
+    case "em":
+      return <em key={key}>{node.children.map(renderInline)}</em>;
+    case "del":
+      return <del key={key}>{node.children.map(renderInline)}</del>;
+    case "link":
+      return node.href === null ? (
+        <span key={key}>{node.children.map(renderInline)}</span>
+      ) : (
+        <a
+          key={key}
+          href={node.href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+        >
+          {node.children.map(renderInline)}
+        </a>
+      );
+    case "break":
+      return <br key={key} />;
+  }
+}
+
+// Items holding just a paragraph are rendered without one, keeping lists
+// compact
+function renderListItem(item: Block[], key: number) {
+  const [first] = item;
+  return (
+    <li key={key}>
+      {item.length === 1 && first?.type === "paragraph"
+        ? first.children.map(renderInline)
+        : item.map(renderBlock)}
+    </li>
+  );
+}
+
+function renderBlock(block: Block, key: number): React.ReactNode {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${block.level}` as const;
+      return <Heading key={key}>{block.children.map(renderInline)}</Heading>;
+    }
+    case "paragraph":
+      return <p key={key}>{block.children.map(renderInline)}</p>;
+    case "code":
+      return (
+        <pre key={key}>
+          <code data-language={block.language || undefined}>{block.text}</code>
+        </pre>
+      );
+    case "quote":
+      return (
+        <blockquote key={key}>{block.children.map(renderBlock)}</blockquote>
+      );
+    case "list":
+      return block.ordered ? (
+        <ol key={key} start={block.start === 1 ? undefined : block.start}>
+          {block.items.map(renderListItem)}
+        </ol>
+      ) : (
+        <ul key={key}>{block.items.map(renderListItem)}</ul>
+      );
+    case "table":
+      return (
+        <div key={key} className="overflow-x-auto">
+          <table>
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th
+                    key={column}
+                    style={{ textAlign: block.align[column] ?? undefined }}
+                  >
+                    {cell.map(renderInline)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, index) => (
+                <tr key={index}>
+                  {row.map((cell, column) => (
+                    <td
+                      key={column}
+                      style={{ textAlign: block.align[column] ?? undefined }}
+                    >
+                      {cell.map(renderInline)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "rule":
+      return <hr key={key} />;
+  }
+}
+
+export default Markdown;
@@ -0,0 +1,49 @@
+import React from "react";
+import Markdown from "./Markdown";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Of the textarea
+  className?: string;
+  rows?: number;
+  required?: boolean;
+}
+
+// Textarea for an order description, with a preview updated as you type
+export function MarkdownEditor({
+  value,
+  onChange,
+  className = "input-field",
+  rows = 6,
+  required,
+}: MarkdownEditorProps) {
+  return (
+    <div className="space-y-2">
+      <textarea
+        required={required}
+        rows={rows}
+        className={`${className} font-mono text-sm`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      <p className="text-xs text-gray-500">
+        Możesz używać Markdown: # nagłówki, **pogrubienie**, *kursywa*, listy
+        (- lub 1.), `kod`, bloki ``` i tabele.
+      </p>
+      {value.trim() && (
+        <div className="rounded-md border border-gray-200 bg-gray-50">
+          <p className="px-3 pt-2 text-xs font-medium uppercase tracking-wide text-gray-400">
+            Podgląd
+          </p>
+          <Markdown
+            source={value}
+            className="px-3 pb-3 pt-1 max-h-80 overflow-y-auto text-sm"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MarkdownEditor;
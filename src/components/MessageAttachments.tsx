@@ -0,0 +1,78 @@
+import React from "react";
+import { formatFileSize, isImageType } from "../lib/uploads";
+import type { Attachment } from "../types";
+
+// Files of a chat message: thumbnails opening the full picture for raster
+// images, see isImageType(), and a download link for every file
+export function MessageAttachments({
+  attachments,
+  isOwn,
+}: {
+  attachments: Attachment[];
+  isOwn: boolean;
+}) {
+  return (
+    <div className="space-y-1 mb-1">
+      {attachments.map((attachment) =>
+        isImageType(attachment.mime_type) ? (
+          <div key={attachment.attachment_id}>
+            <a href={attachment.url} target="_blank" rel="noreferrer">
+              <img
+                src={attachment.url}
+                alt={attachment.name}
+                loading="lazy"
+                className="max-h-40 max-w-full rounded-md object-cover"
+              />
+            </a>
+            <a
+              href={attachment.url}
+              download={attachment.name}
+              className={`text-xs underline ${
+                isOwn ? "text-indigo-200" : "text-gray-500"
+              }`}
+            >
+              Pobierz
+            </a>
+          </div>
+        ) : (
+          <a
+            key={attachment.attachment_id}
+            href={attachment.url}
+            download={attachment.name}
+            className={`flex items-center space-x-2 rounded-md px-2 py-1.5 ${
+              isOwn
+                ? "bg-indigo-500 hover:bg-indigo-400"
+                : "bg-white hover:bg-gray-50"
+            }`}
+          >
+            <svg
+              className="w-5 h-5 flex-shrink-0"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+              />
+            </svg>
+            <span className="min-w-0">
+              <span className="block text-sm truncate">{attachment.name}</span>
+              <span
+                className={`block text-xs ${
+                  isOwn ? "text-indigo-200" : "text-gray-500"
+                }`}
+              >
+                {formatFileSize(attachment.size)}
+              </span>
+            </span>
+          </a>
+        ),
+      )}
+    </div>
+  );
+}
+
+export default MessageAttachments;
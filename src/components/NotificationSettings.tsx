@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { api } from "../lib/api";
+import { disablePush, enablePush, updatePreferences } from "../lib/push";
+import { usePushState } from "../hooks/usePushState";
+import type { NotificationCategory } from "../types";
+
+const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  messages: "Nowe wiadomości",
+  offers: "Oferty na moje zlecenia i odpowiedzi na moje oferty",
+  reviews: "Nowe opinie o mnie",
+};
+
+// Browser notifications of the logged-in user, shown on their own profile
+export function NotificationSettings() {
+  const { isSupported, permission, isEnabled, isSubscribed, preferences } =
+    usePushState();
+  const [isEnabling, setIsEnabling] = useState(false);
+
+  const handleEnable = async () => {
+    setIsEnabling(true);
+    const enabled = await enablePush();
+    setIsEnabling(false);
+    if (!enabled) {
+      alert("Nie udzielono zgody na powiadomienia");
+    }
+  };
+
+  const handleToggleCategory = async (
+    category: NotificationCategory,
+    enabled: boolean,
+  ) => {
+    try {
+      await updatePreferences({ [category]: enabled });
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      alert("Błąd podczas zapisywania ustawień powiadomień");
+    }
+  };
+
+  const handleTest = async () => {
+    try {
+      await api.sendTestPush();
+    } catch (error) {
+      console.error("Error sending test notification:", error);
+      alert("Błąd podczas wysyłania powiadomienia testowego");
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Powiadomienia
+        </h3>
+
+        {!isSupported ? (
+          <p className="text-gray-500">
+            Ta przeglądarka nie obsługuje powiadomień.
+          </p>
+        ) : permission === "denied" ? (
+          <p className="text-gray-500">
+            Powiadomienia są zablokowane w ustawieniach przeglądarki.
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <p className="text-sm text-gray-600">
+              {!isEnabled
+                ? "Otrzymuj powiadomienia, gdy aplikacja jest w tle."
+                : isSubscribed
+                  ? "Powiadomienia są włączone na tym urządzeniu."
+                  : "Powiadomienia pojawią się, gdy karta jest otwarta w tle."}
+            </p>
+            <div className="flex gap-2">
+              {isSubscribed && (
+                <button onClick={handleTest} className="btn-secondary">
+                  Wyślij testowe
+                </button>
+              )}
+              {isEnabled ? (
+                <button onClick={disablePush} className="btn-secondary">
+                  Wyłącz
+                </button>
+              ) : (
+                <button
+                  onClick={handleEnable}
+                  disabled={isEnabling}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  Włącz powiadomienia
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {(Object.keys(CATEGORY_LABELS) as NotificationCategory[]).map(
+            (category) => (
+              <label
+                key={category}
+                className="flex items-center space-x-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  className="rounded text-indigo-600 focus:ring-indigo-500"
+                  checked={preferences?.[category] ?? false}
+                  disabled={!preferences}
+                  onChange={(e) =>
+                    handleToggleCategory(category, e.target.checked)
+                  }
+                />
+                <span>{CATEGORY_LABELS[category]}</span>
+              </label>
+            ),
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default NotificationSettings;
@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import type { OfferTerms } from "../lib/api";
+
+interface OfferTermsModalProps {
+  title: string;
+  subtitle: string;
+  initialTerms?: Partial<OfferTerms>;
+  submitLabel: string;
+  onClose: () => void;
+  // Errors are reported by the caller, the form just stays open
+  onSubmit: (terms: OfferTerms) => Promise<void>;
+}
+
+// The user's local date as YYYY-MM-DD, the format of date inputs
+const today = () => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+// Proposed price, completion date and message form, used for applications
+// and for counter-offers
+export function OfferTermsModal({
+  title,
+  subtitle,
+  initialTerms = {},
+  submitLabel,
+  onClose,
+  onSubmit,
+}: OfferTermsModalProps) {
+  const [proposedPrice, setProposedPrice] = useState(
+    initialTerms.proposed_price !== undefined
+      ? String(initialTerms.proposed_price)
+      : "",
+  );
+  const [completionDate, setCompletionDate] = useState(
+    initialTerms.completion_date ?? "",
+  );
+  const [message, setMessage] = useState(initialTerms.message ?? "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        proposed_price: parseFloat(proposedPrice),
+        completion_date: completionDate,
+        message: message.trim(),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">{title}</h3>
+        <p className="text-sm text-gray-500 mb-4">{subtitle}</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Proponowana cena (PLN)
+            </label>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              required
+              className="input-field"
+              value={proposedPrice}
+              onChange={(e) => setProposedPrice(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Przewidywany termin realizacji
+            </label>
+            <input
+              type="date"
+              required
+              min={today()}
+              className="input-field"
+              value={completionDate}
+              onChange={(e) => setCompletionDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Wiadomość
+            </label>
+            <textarea
+              required
+              rows={4}
+              className="input-field resize-none"
+              placeholder="Opisz swoje doświadczenie i sposób realizacji..."
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Anuluj
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn-primary disabled:opacity-50"
+            >
+              {isSubmitting ? "Wysyłanie..." : submitLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default OfferTermsModal;
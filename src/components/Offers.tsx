@@ -1,202 +1,115 @@
 import React, { useState, useEffect } from "react";
-
-interface Offer {
-  offer_id: number;
-  order_id: number;
-  user_id: number;
-  status: string;
-  created_at: string;
-}
-
-interface Order {
-  order_id: number;
-  user_id: number;
-  order_name: string;
-  order_desc: string;
-  price: number;
-  image_urls: string[];
-  created_at: string;
-}
-
-interface User {
-  user_id: number;
-  username: string;
-  email: string;
-  password_hash: string;
-  created_at: string;
-}
+import type { OfferTerms } from "../lib/api";
+import {
+  counterOffer,
+  deleteOffer,
+  loadOffersForOrders,
+  offersByOrder,
+  offersByUser,
+  orders as orderStore,
+  ordersByUser,
+  updateOfferStatus,
+  users as userStore,
+} from "../lib/store";
+import { useEntities, useList, useLists } from "../hooks/useResource";
+import {
+  getOfferStatusConfig,
+  getOfferTurn,
+  isOfferNegotiable,
+} from "../lib/offerStatus";
+import { markdownExcerpt } from "../lib/markdown";
+import { getOrderStatus } from "../lib/orderStatus";
+import OfferTermsModal from "./OfferTermsModal";
+import OrderStatusBadge from "./OrderStatusBadge";
+import type { Offer, User } from "../types";
+
+// Orders whose offers are fetched in one request
+const RECEIVED_BATCH_SIZE = 25;
 
 interface OffersProps {
   currentUserId: number;
   token: string;
+  activeTab: "sent" | "received";
+  onTabChange: (tab: "sent" | "received") => void;
 }
 
-const API_BASE = "https://techni-zlecenia-4wdh.shuttle.app";
-
-export function Offers({ currentUserId, token }: OffersProps) {
-  const [myOffers, setMyOffers] = useState<Offer[]>([]);
-  const [receivedOffers, setReceivedOffers] = useState<Offer[]>([]);
-  const [orders, setOrders] = useState<{ [key: number]: Order }>({});
-  const [users, setUsers] = useState<{ [key: number]: User }>({});
-  const [activeTab, setActiveTab] = useState<"sent" | "received">("sent");
-  const [isLoading, setIsLoading] = useState(true);
+export function Offers({
+  currentUserId,
+  token,
+  activeTab,
+  onTabChange,
+}: OffersProps) {
+  const { data: myOffers = [], isLoading: isLoadingSent } = useList(
+    offersByUser,
+    currentUserId,
+  );
+  const { data: myOrders = [], isLoading: isLoadingOrders } = useList(
+    ordersByUser,
+    currentUserId,
+  );
+  const myOrderIds = myOrders.map((order) => order.order_id);
+  const receivedOffers = useLists(offersByOrder, myOrderIds);
+  const orders = useEntities(orderStore, [
+    ...myOffers.map((offer) => offer.order_id),
+    ...myOrderIds,
+  ]);
+  const users = useEntities(
+    userStore,
+    receivedOffers.map((offer) => offer.user_id),
+  );
+  const [isLoadingReceived, setIsLoadingReceived] = useState(false);
+  const [counteringOffer, setCounteringOffer] = useState<Offer | null>(null);
 
+  // Offers on the user's orders are fetched for a batch of orders per
+  // request, and each batch is shown as soon as it arrives
+  const myOrderIdsKey = myOrderIds.join(",");
   useEffect(() => {
-    fetchData();
-  }, [currentUserId, token]);
-
-  const fetchData = async () => {
-    setIsLoading(true);
-    try {
-      await Promise.all([fetchMyOffers(), fetchReceivedOffers()]);
-    } catch (error) {
-      console.error("Error fetching offers data:", error);
-    }
-    setIsLoading(false);
-  };
+    const orderIds = myOrderIds.filter((id) => offersByOrder.isStale(id));
+    if (orderIds.length === 0) return;
 
-  const fetchMyOffers = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/offers/user/${currentUserId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const offers = await response.json();
-        setMyOffers(offers);
-
-        // Fetch order details for each offer
-        for (const offer of offers) {
-          await fetchOrderDetails(offer.order_id);
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching my offers:", error);
+    const batches: number[][] = [];
+    for (let i = 0; i < orderIds.length; i += RECEIVED_BATCH_SIZE) {
+      batches.push(orderIds.slice(i, i + RECEIVED_BATCH_SIZE));
     }
-  };
-
-  const fetchReceivedOffers = async () => {
+    setIsLoadingReceived(true);
+    Promise.all(batches.map(loadOffersForOrders))
+      .catch((error) => {
+        console.error("Error fetching received offers:", error);
+      })
+      .finally(() => setIsLoadingReceived(false));
+  }, [myOrderIdsKey]);
+
+  // The store refetches the order and its offers afterwards, which picks up
+  // the order moving on and other offers rejected when one was accepted
+  const handleOfferStatus = async (offer: Offer, status: string) => {
     try {
-      // First get user's orders
-      const ordersResponse = await fetch(
-        `${API_BASE}/orders/user/${currentUserId}`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        },
+      await updateOfferStatus(offer, status);
+      alert(
+        `Oferta została ${getOfferStatusConfig(status).label.toLowerCase()}`,
       );
-
-      if (ordersResponse.ok) {
-        const userOrders = await ordersResponse.json();
-        const allReceivedOffers: Offer[] = [];
-
-        // For each order, get its offers
-        for (const order of userOrders) {
-          const offersResponse = await fetch(
-            `${API_BASE}/offers/order/${order.order_id}`,
-            {
-              headers: { Authorization: `Bearer ${token}` },
-            },
-          );
-
-          if (offersResponse.ok) {
-            const orderOffers = await offersResponse.json();
-            allReceivedOffers.push(...orderOffers);
-
-            // Store order details
-            setOrders((prev) => ({ ...prev, [order.order_id]: order }));
-
-            // Fetch user details for each offer
-            for (const offer of orderOffers) {
-              await fetchUserDetails(offer.user_id);
-            }
-          }
-        }
-
-        setReceivedOffers(allReceivedOffers);
-      }
     } catch (error) {
-      console.error("Error fetching received offers:", error);
-    }
-  };
-
-  const fetchOrderDetails = async (orderId: number) => {
-    if (orders[orderId]) return; // Already fetched
-
-    try {
-      const response = await fetch(`${API_BASE}/orders/${orderId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const order = await response.json();
-        setOrders((prev) => ({ ...prev, [orderId]: order }));
-      }
-    } catch (error) {
-      console.error("Error fetching order details:", error);
-    }
-  };
-
-  const fetchUserDetails = async (userId: number) => {
-    if (users[userId]) return; // Already fetched
-
-    try {
-      const response = await fetch(`${API_BASE}/user/${userId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const user = await response.json();
-        setUsers((prev) => ({ ...prev, [userId]: user }));
-      }
-    } catch (error) {
-      console.error("Error fetching user details:", error);
+      console.error("Error updating offer status:", error);
+      alert("Błąd podczas aktualizacji oferty");
     }
   };
 
-  const updateOfferStatus = async (offerId: number, status: string) => {
+  const handleCounterOffer = async (offer: Offer, terms: OfferTerms) => {
     try {
-      const response = await fetch(`${API_BASE}/offers/${offerId}`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ status }),
-      });
-
-      if (response.ok) {
-        // Update the offer in the state
-        setReceivedOffers((prev) =>
-          prev.map((offer) =>
-            offer.offer_id === offerId ? { ...offer, status } : offer,
-          ),
-        );
-        alert(
-          `Oferta została ${status === "accepted" ? "zaakceptowana" : "odrzucona"}`,
-        );
-      } else {
-        alert("Błąd podczas aktualizacji oferty");
-      }
+      await counterOffer(offer, terms);
+      setCounteringOffer(null);
+      alert("Kontroferta została wysłana");
     } catch (error) {
-      console.error("Error updating offer status:", error);
-      alert("Błąd podczas aktualizacji oferty");
+      console.error("Error sending counter-offer:", error);
+      alert("Błąd podczas wysyłania kontroferty");
     }
   };
 
-  const deleteOffer = async (offerId: number) => {
+  const handleDeleteOffer = async (offer: Offer) => {
     if (!confirm("Czy na pewno chcesz usunąć tę ofertę?")) return;
 
     try {
-      const response = await fetch(`${API_BASE}/offers/${offerId}`, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (response.ok) {
-        setMyOffers((prev) =>
-          prev.filter((offer) => offer.offer_id !== offerId),
-        );
-        alert("Oferta została usunięta");
-      } else {
-        alert("Błąd podczas usuwania oferty");
-      }
+      await deleteOffer(offer);
+      alert("Oferta została usunięta");
     } catch (error) {
       console.error("Error deleting offer:", error);
       alert("Błąd podczas usuwania oferty");
@@ -204,16 +117,7 @@ export function Offers({ currentUserId, token }: OffersProps) {
   };
 
   const getStatusBadge = (status: string) => {
-    const statusConfig = {
-      pending: { label: "Oczekuje", className: "status-pending" },
-      accepted: { label: "Zaakceptowana", className: "status-accepted" },
-      rejected: { label: "Odrzucona", className: "status-rejected" },
-    };
-
-    const config = statusConfig[status as keyof typeof statusConfig] || {
-      label: status,
-      className: "status-pending",
-    };
+    const config = getOfferStatusConfig(status);
 
     return (
       <span className={`status-badge ${config.className}`}>{config.label}</span>
@@ -230,7 +134,25 @@ export function Offers({ currentUserId, token }: OffersProps) {
     });
   };
 
-  if (isLoading) {
+  // Received offers grouped by order so bids can be compared side by side,
+  // cheapest first
+  const receivedByOrder = Object.entries(
+    receivedOffers.reduce<Record<number, Offer[]>>((groups, offer) => {
+      (groups[offer.order_id] ??= []).push(offer);
+      return groups;
+    }, {}),
+  ).map(
+    ([orderId, orderOffers]) =>
+      [
+        Number(orderId),
+        [...orderOffers].sort(
+          (a, b) =>
+            (a.proposed_price ?? Infinity) - (b.proposed_price ?? Infinity),
+        ),
+      ] as const,
+  );
+
+  if (isLoadingSent || isLoadingOrders) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
@@ -249,7 +171,7 @@ export function Offers({ currentUserId, token }: OffersProps) {
         <div className="border-b border-gray-200">
           <nav className="-mb-px flex space-x-8">
             <button
-              onClick={() => setActiveTab("sent")}
+              onClick={() => onTabChange("sent")}
               className={`py-2 px-1 border-b-2 font-medium text-sm ${
                 activeTab === "sent"
                   ? "border-indigo-500 text-indigo-600"
@@ -259,7 +181,7 @@ export function Offers({ currentUserId, token }: OffersProps) {
               Wysłane oferty ({myOffers.length})
             </button>
             <button
-              onClick={() => setActiveTab("received")}
+              onClick={() => onTabChange("received")}
               className={`py-2 px-1 border-b-2 font-medium text-sm ${
                 activeTab === "received"
                   ? "border-indigo-500 text-indigo-600"
@@ -309,24 +231,69 @@ export function Offers({ currentUserId, token }: OffersProps) {
                           {order ? order.order_name : "Ładowanie..."}
                         </h3>
                         {order && (
-                          <p className="text-gray-600 mb-3">
-                            {order.order_desc}
+                          <p className="text-gray-600 mb-3 line-clamp-3">
+                            {markdownExcerpt(order.order_desc)}
                           </p>
                         )}
+                        <div className="mb-3">
+                          <OfferTermsSummary
+                            offer={offer}
+                            budget={order?.price}
+                          />
+                        </div>
                         <div className="flex items-center space-x-4 text-sm text-gray-500">
                           <span>Wysłano: {formatDate(offer.created_at)}</span>
-                          {order && (
-                            <span className="font-semibold text-indigo-600">
-                              {order.price} zł
-                            </span>
-                          )}
+                          {order && <span>Budżet: {order.price} zł</span>}
                         </div>
+                        <OfferHistory
+                          offer={offer}
+                          users={users}
+                          currentUserId={currentUserId}
+                        />
                       </div>
-                      <div className="flex items-center space-x-3">
+                      <div className="flex flex-col items-end space-y-2 ml-4">
                         {getStatusBadge(offer.status)}
+                        {isOfferNegotiable(offer) &&
+                          getOfferTurn(offer) === "applicant" && (
+                            <>
+                              <button
+                                onClick={() =>
+                                  handleOfferStatus(offer, "accepted")
+                                }
+                                className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+                              >
+                                Zaakceptuj
+                              </button>
+                              <button
+                                onClick={() => setCounteringOffer(offer)}
+                                className="btn-secondary text-sm"
+                              >
+                                Kontroferta
+                              </button>
+                              <button
+                                onClick={() =>
+                                  handleOfferStatus(offer, "withdrawn")
+                                }
+                                className="btn-danger text-sm"
+                              >
+                                Odrzuć
+                              </button>
+                            </>
+                          )}
+                        {offer.status === "countered" &&
+                          getOfferTurn(offer) === "owner" && (
+                            <button
+                              onClick={() =>
+                                handleOfferStatus(offer, "withdrawn")
+                              }
+                              className="btn-secondary text-sm"
+                            >
+                              Wycofaj
+                            </button>
+                          )}
                         {offer.status === "pending" && (
                           <button
-                            onClick={() => deleteOffer(offer.offer_id)}
+                            onClick={() => handleDeleteOffer(offer)}
                             className="btn-danger text-sm"
                           >
                             Usuń
@@ -345,7 +312,7 @@ export function Offers({ currentUserId, token }: OffersProps) {
       {/* Received Offers Tab */}
       {activeTab === "received" && (
         <div className="space-y-4">
-          {receivedOffers.length === 0 ? (
+          {receivedOffers.length === 0 && !isLoadingReceived ? (
             <div className="text-center py-12">
               <svg
                 className="w-12 h-12 mx-auto mb-4 text-gray-400"
@@ -368,72 +335,282 @@ export function Offers({ currentUserId, token }: OffersProps) {
               </p>
             </div>
           ) : (
-            receivedOffers.map((offer) => {
-              const order = orders[offer.order_id];
-              const user = users[offer.user_id];
+            receivedByOrder.map(([orderId, orderOffers]) => {
+              const order = orders[orderId];
+              const canDecide = order && getOrderStatus(order) === "open";
+              const pending = orderOffers.filter(
+                (offer) =>
+                  isOfferNegotiable(offer) &&
+                  offer.proposed_price !== undefined,
+              );
+              const lowestPrice = Math.min(
+                ...pending.map((offer) => offer.proposed_price!),
+              );
+              const earliestDate = pending
+                .map((offer) => offer.completion_date)
+                .filter(Boolean)
+                .sort()[0];
+
               return (
-                <div key={offer.offer_id} className="card hover-lift">
+                <div key={orderId} className="card">
                   <div className="card-body">
-                    <div className="flex justify-between items-start">
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-3 mb-3">
-                          <div className="w-10 h-10 bg-indigo-500 rounded-full flex items-center justify-center text-white font-semibold">
-                            {user ? user.username.charAt(0).toUpperCase() : "?"}
-                          </div>
-                          <div>
-                            <h4 className="font-semibold text-gray-900">
-                              {user ? user.username : "Ładowanie..."}
-                            </h4>
-                            <p className="text-sm text-gray-500">
-                              {user ? user.email : ""}
-                            </p>
-                          </div>
-                        </div>
-                        <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                    <div className="flex justify-between items-start mb-4">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">
                           {order ? order.order_name : "Ładowanie..."}
                         </h3>
-                        <div className="flex items-center space-x-4 text-sm text-gray-500">
-                          <span>Złożono: {formatDate(offer.created_at)}</span>
-                          {order && (
-                            <span className="font-semibold text-indigo-600">
-                              {order.price} zł
-                            </span>
-                          )}
-                        </div>
+                        {order && (
+                          <p className="text-sm text-gray-500">
+                            Budżet: {order.price} zł · Ofert:{" "}
+                            {orderOffers.length}
+                          </p>
+                        )}
                       </div>
-                      <div className="flex items-center space-x-3">
-                        {getStatusBadge(offer.status)}
-                        {offer.status === "pending" && (
-                          <div className="flex space-x-2">
-                            <button
-                              onClick={() =>
-                                updateOfferStatus(offer.offer_id, "accepted")
+                      {order && <OrderStatusBadge order={order} />}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {orderOffers.map((offer) => {
+                        const user = users[offer.user_id];
+                        return (
+                          <div
+                            key={offer.offer_id}
+                            className="border border-gray-200 rounded-lg p-4 flex flex-col"
+                          >
+                            <div className="flex items-center justify-between mb-3">
+                              <div className="flex items-center space-x-3 min-w-0">
+                                <div className="w-10 h-10 bg-indigo-500 rounded-full flex items-center justify-center text-white font-semibold flex-shrink-0">
+                                  {user
+                                    ? user.username.charAt(0).toUpperCase()
+                                    : "?"}
+                                </div>
+                                <div className="min-w-0">
+                                  <h4 className="font-semibold text-gray-900 truncate">
+                                    {user ? user.username : "Ładowanie..."}
+                                  </h4>
+                                  <p className="text-xs text-gray-500">
+                                    {formatDate(offer.created_at)}
+                                  </p>
+                                </div>
+                              </div>
+                              {getStatusBadge(offer.status)}
+                            </div>
+
+                            <OfferTermsSummary
+                              offer={offer}
+                              budget={order?.price}
+                              isLowestPrice={
+                                isOfferNegotiable(offer) &&
+                                pending.length > 1 &&
+                                offer.proposed_price === lowestPrice
                               }
-                              className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
-                            >
-                              Zaakceptuj
-                            </button>
-                            <button
-                              onClick={() =>
-                                updateOfferStatus(offer.offer_id, "rejected")
+                              isEarliest={
+                                isOfferNegotiable(offer) &&
+                                pending.length > 1 &&
+                                offer.completion_date === earliestDate
                               }
-                              className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
-                            >
-                              Odrzuć
-                            </button>
+                            />
+
+                            <OfferHistory
+                              offer={offer}
+                              users={users}
+                              currentUserId={currentUserId}
+                            />
+
+                            {isOfferNegotiable(offer) && canDecide && (
+                              <div className="mt-auto pt-4">
+                                {getOfferTurn(offer) === "applicant" && (
+                                  <p className="text-xs text-gray-500 mb-2">
+                                    Czeka na odpowiedź wykonawcy
+                                  </p>
+                                )}
+                                <div className="flex space-x-2">
+                                  {getOfferTurn(offer) === "owner" && (
+                                    <>
+                                      <button
+                                        onClick={() =>
+                                          handleOfferStatus(offer, "accepted")
+                                        }
+                                        className="flex-1 bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+                                      >
+                                        Zaakceptuj
+                                      </button>
+                                      <button
+                                        onClick={() =>
+                                          setCounteringOffer(offer)
+                                        }
+                                        className="flex-1 btn-secondary text-sm"
+                                      >
+                                        Kontroferta
+                                      </button>
+                                    </>
+                                  )}
+                                  <button
+                                    onClick={() =>
+                                      handleOfferStatus(offer, "rejected")
+                                    }
+                                    className="flex-1 bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+                                  >
+                                    Odrzuć
+                                  </button>
+                                </div>
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
+                        );
+                      })}
                     </div>
                   </div>
                 </div>
               );
             })
           )}
+          {isLoadingReceived && (
+            <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600 mr-2"></div>
+              Ładowanie ofert...
+            </div>
+          )}
         </div>
       )}
+
+      {counteringOffer && (
+        <OfferTermsModal
+          title="Kontroferta"
+          subtitle={`${orders[counteringOffer.order_id]?.order_name ?? ""} · obecnie ${counteringOffer.proposed_price ?? "?"} zł`}
+          initialTerms={{
+            proposed_price: counteringOffer.proposed_price,
+            completion_date: counteringOffer.completion_date,
+          }}
+          submitLabel="Wyślij kontrofertę"
+          onClose={() => setCounteringOffer(null)}
+          onSubmit={(terms) =>
+            handleCounterOffer(counteringOffer, terms)
+          }
+        />
+      )}
     </div>
   );
 }
 
+// Proposed price, completion date and cover message of an offer
+function OfferTermsSummary({
+  offer,
+  budget,
+  isLowestPrice = false,
+  isEarliest = false,
+}: {
+  offer: Offer;
+  budget?: number;
+  isLowestPrice?: boolean;
+  isEarliest?: boolean;
+}) {
+  if (offer.proposed_price === undefined) {
+    return (
+      <p className="text-sm text-gray-400 italic">
+        Oferta bez proponowanej ceny i terminu
+      </p>
+    );
+  }
+
+  const difference =
+    budget !== undefined ? offer.proposed_price - budget : undefined;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-baseline flex-wrap gap-x-2">
+        <span className="text-xl font-bold text-indigo-600">
+          {offer.proposed_price} zł
+        </span>
+        {difference !== undefined && difference !== 0 && (
+          <span
+            className={difference > 0 ? "text-red-600" : "text-green-600"}
+          >
+            {difference > 0 ? "+" : ""}
+            {difference.toFixed(2)} zł względem budżetu
+          </span>
+        )}
+        {isLowestPrice && (
+          <span className="status-badge status-accepted">Najniższa cena</span>
+        )}
+      </div>
+      {offer.completion_date && (
+        <div className="flex items-center flex-wrap gap-x-2 text-gray-700">
+          <span>
+            Termin realizacji:{" "}
+            <span className="font-medium">
+              {new Date(offer.completion_date).toLocaleDateString("pl-PL", {
+                year: "numeric",
+                month: "short",
+                day: "numeric",
+              })}
+            </span>
+          </span>
+          {isEarliest && (
+            <span className="status-badge status-accepted">
+              Najszybszy termin
+            </span>
+          )}
+        </div>
+      )}
+      {offer.message && (
+        <p className="text-gray-600 whitespace-pre-line">{offer.message}</p>
+      )}
+    </div>
+  );
+}
+
+// Negotiation rounds of an offer, shown once someone countered
+function OfferHistory({
+  offer,
+  users,
+  currentUserId,
+}: {
+  offer: Offer;
+  users: { [key: number]: User };
+  currentUserId: number;
+}) {
+  const rounds = offer.history ?? [];
+  if (rounds.length < 2) return null;
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-indigo-600 hover:text-indigo-800">
+        Historia negocjacji ({rounds.length})
+      </summary>
+      <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+        {rounds.map((round, index) => (
+          <li key={index}>
+            <div className="flex justify-between text-gray-500 text-xs">
+              <span className="font-medium text-gray-700">
+                {round.user_id === currentUserId
+                  ? "Ty"
+                  : (users[round.user_id]?.username ?? "Zleceniodawca")}
+                {index === 0 ? " · aplikacja" : " · kontroferta"}
+              </span>
+              <span>
+                {new Date(round.created_at).toLocaleDateString("pl-PL", {
+                  month: "short",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+            </div>
+            <p className="text-gray-900">
+              {round.proposed_price} zł · do{" "}
+              {new Date(round.completion_date).toLocaleDateString("pl-PL")}
+            </p>
+            {round.message && (
+              <p className="text-gray-600 whitespace-pre-line">
+                {round.message}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
+
 export default Offers;
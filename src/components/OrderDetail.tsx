@@ -0,0 +1,371 @@
+import React, { useState, useEffect } from "react";
+import { offersByOrder, orders, reviewsByUser, users } from "../lib/store";
+import { useEntity, useList } from "../hooks/useResource";
+import { getOfferStatusConfig } from "../lib/offerStatus";
+import { getOrderStatus } from "../lib/orderStatus";
+import Markdown from "./Markdown";
+import OrderLabels from "./OrderLabels";
+import OrderStatusBadge from "./OrderStatusBadge";
+import ApplyOfferModal from "./ApplyOfferModal";
+import { Link } from "../lib/router";
+
+interface OrderDetailProps {
+  orderId: number;
+  currentUserId: number;
+  onProfileClick: (userId: number) => void;
+  onMessageClick: (userId: number) => void;
+}
+
+export function OrderDetail({
+  orderId,
+  currentUserId,
+  onProfileClick,
+  onMessageClick,
+}: OrderDetailProps) {
+  const { data: order, isLoading } = useEntity(orders, orderId);
+  const ownerId = order?.user_id ?? null;
+  const { data: owner } = useEntity(users, ownerId);
+  const { data: ownerReviews = [] } = useList(reviewsByUser, ownerId);
+  const { data: offers = [] } = useList(offersByOrder, orderId);
+  const [showApplyForm, setShowApplyForm] = useState(false);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  // createOffer invalidates the order's offers, which refetch on their own
+  const handleOfferSubmitted = () => setShowApplyForm(false);
+
+  const getAverageRating = () => {
+    if (ownerReviews.length === 0) return null;
+    const sum = ownerReviews.reduce((acc, review) => acc + review.rating, 0);
+    return (sum / ownerReviews.length).toFixed(1);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("pl-PL", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="px-4 py-6 sm:px-0 text-center">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          Nie znaleziono zlecenia
+        </h3>
+        <p className="text-gray-500 mb-4">
+          To zlecenie nie istnieje lub zostało usunięte.
+        </p>
+        <Link to="/orders" className="btn-primary">
+          Przeglądaj zlecenia
+        </Link>
+      </div>
+    );
+  }
+
+  const isOwner = order.user_id === currentUserId;
+  const isOpen = getOrderStatus(order) === "open";
+  const myOffer = offers.find((offer) => offer.user_id === currentUserId);
+  const averageRating = getAverageRating();
+
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <Link
+        to="/orders"
+        className="text-sm text-indigo-600 hover:text-indigo-800 mb-4 inline-block"
+      >
+        ← Wszystkie zlecenia
+      </Link>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Order content */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="card">
+            <div className="card-body">
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+                  {order.order_name}
+                </h1>
+                <OrderStatusBadge order={order} />
+              </div>
+              <p className="text-sm text-gray-500 mb-3">
+                Dodano {formatDate(order.created_at)}
+              </p>
+              <div className="mb-6">
+                <OrderLabels order={order} />
+              </div>
+              <Markdown source={order.order_desc} />
+            </div>
+          </div>
+
+          {order.image_urls.length > 0 && (
+            <div className="card">
+              <div className="card-body">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  Zdjęcia ({order.image_urls.length})
+                </h2>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {order.image_urls.map((url, index) => (
+                    <button
+                      key={url}
+                      onClick={() => setLightboxIndex(index)}
+                      className="focus-ring rounded-md overflow-hidden"
+                    >
+                      <img
+                        src={url}
+                        alt={`Zdjęcie ${index + 1}`}
+                        className="w-full h-32 sm:h-40 object-cover hover:opacity-90 transition-opacity"
+                        loading="lazy"
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <div className="card">
+            <div className="card-body space-y-4">
+              <div className="text-3xl font-bold text-indigo-600">
+                {order.price} zł
+              </div>
+              <p className="text-sm text-gray-500">
+                {offers.length === 0 ? "Brak ofert" : `Ofert: ${offers.length}`}
+              </p>
+
+              {myOffer && (
+                <div className="bg-gray-50 rounded-md px-3 py-2 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-700">Twoja oferta</span>
+                    <span
+                      className={`status-badge ${getOfferStatusConfig(myOffer.status).className}`}
+                    >
+                      {getOfferStatusConfig(myOffer.status).label}
+                    </span>
+                  </div>
+                  {myOffer.proposed_price !== undefined && (
+                    <p className="text-sm text-gray-500">
+                      {myOffer.proposed_price} zł
+                      {myOffer.completion_date &&
+                        ` · do ${formatDate(myOffer.completion_date)}`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {!isOwner && (
+                <div className="space-y-2">
+                  {!myOffer && isOpen && (
+                    <button
+                      onClick={() => setShowApplyForm(true)}
+                      className="btn-primary w-full"
+                    >
+                      Aplikuj
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onMessageClick(order.user_id)}
+                    className="btn-secondary w-full"
+                  >
+                    Napisz do zleceniodawcy
+                  </button>
+                </div>
+              )}
+
+              {isOwner && (
+                <Link
+                  to="/offers/received"
+                  className="btn-secondary block text-center"
+                >
+                  Zobacz otrzymane oferty
+                </Link>
+              )}
+            </div>
+          </div>
+
+          {owner && (
+            <div className="card">
+              <div className="card-body">
+                <h2 className="text-sm font-medium text-gray-500 mb-3">
+                  Zleceniodawca
+                </h2>
+                <div className="flex items-center space-x-3">
+                  <div className="w-12 h-12 bg-indigo-500 rounded-full flex items-center justify-center text-white font-semibold text-lg">
+                    {owner.username.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="min-w-0">
+                    <button
+                      onClick={() => onProfileClick(owner.user_id)}
+                      className="font-semibold text-indigo-600 hover:text-indigo-800 transition-colors truncate block"
+                    >
+                      {owner.username}
+                    </button>
+                    <p className="text-xs text-gray-500">
+                      Użytkownik od {formatDate(owner.created_at)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1 mt-3 text-sm">
+                  <svg
+                    className="w-4 h-4 text-yellow-400"
+                    fill="currentColor"
+                    viewBox="0 0 20 20"
+                  >
+                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                  </svg>
+                  <span className="text-gray-700">
+                    {averageRating ?? "Brak ocen"}
+                  </span>
+                  <span className="text-gray-500">
+                    ({ownerReviews.length}{" "}
+                    {ownerReviews.length === 1 ? "opinia" : "opinii"})
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showApplyForm && (
+        <ApplyOfferModal
+          order={order}
+          onClose={() => setShowApplyForm(false)}
+          onSubmitted={handleOfferSubmitted}
+        />
+      )}
+
+      {lightboxIndex !== null && (
+        <Lightbox
+          images={order.image_urls}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// Lightbox Component
+function Lightbox({
+  images,
+  index,
+  onIndexChange,
+  onClose,
+}: {
+  images: string[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}) {
+  const showPrevious = () =>
+    onIndexChange((index - 1 + images.length) % images.length);
+  const showNext = () => onIndexChange((index + 1) % images.length);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft") showPrevious();
+      if (e.key === "ArrowRight") showNext();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [index, images.length]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <img
+        src={images[index]}
+        alt={`Zdjęcie ${index + 1}`}
+        className="max-w-full max-h-[85vh] object-contain rounded-md"
+        onClick={(e) => e.stopPropagation()}
+      />
+
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 text-white hover:text-gray-300"
+      >
+        <svg
+          className="w-8 h-8"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M6 18L18 6M6 6l12 12"
+          />
+        </svg>
+      </button>
+
+      {images.length > 1 && (
+        <>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              showPrevious();
+            }}
+            className="absolute left-4 text-white hover:text-gray-300 p-2"
+          >
+            <svg
+              className="w-10 h-10"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              showNext();
+            }}
+            className="absolute right-4 text-white hover:text-gray-300 p-2"
+          >
+            <svg
+              className="w-10 h-10"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 5l7 7-7 7"
+              />
+            </svg>
+          </button>
+          <div className="absolute bottom-4 text-white text-sm">
+            {index + 1} / {images.length}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default OrderDetail;
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from "react";
+import {
+  deleteDraft,
+  formatDraftTime,
+  isDraftComplete,
+  publishDraft,
+  type OrderDraft,
+} from "../lib/drafts";
+import { navigate } from "../lib/router";
+import { useDrafts } from "../hooks/useDrafts";
+
+// Unpublished orders of the user, shown on top of MyOrders
+export function OrderDrafts({ userId }: { userId: number }) {
+  const drafts = useDrafts(userId);
+  const [publishingId, setPublishingId] = useState<string | null>(null);
+
+  if (!drafts?.length) return null;
+
+  const openDraft = (draft: OrderDraft) =>
+    navigate(`/create?draft=${encodeURIComponent(draft.draft_id)}`);
+
+  const handlePublish = async (draft: OrderDraft) => {
+    if (!isDraftComplete(draft)) {
+      alert(
+        "Uzupełnij nazwę, opis, cenę i kategorię, zanim opublikujesz szkic",
+      );
+      openDraft(draft);
+      return;
+    }
+    if (!confirm(`Opublikować zlecenie "${draft.order_name}"?`)) return;
+
+    setPublishingId(draft.draft_id);
+    try {
+      await publishDraft(draft);
+      alert("Zlecenie zostało opublikowane!");
+    } catch (error) {
+      console.error("Error publishing draft:", error);
+      alert("Błąd podczas publikowania szkicu");
+    }
+    setPublishingId(null);
+  };
+
+  const handleDelete = async (draft: OrderDraft) => {
+    if (!confirm(`Usunąć szkic "${draft.order_name || "Bez nazwy"}"?`)) {
+      return;
+    }
+    try {
+      await deleteDraft(draft);
+    } catch (error) {
+      console.error("Error deleting draft:", error);
+      alert("Błąd podczas usuwania szkicu");
+    }
+  };
+
+  return (
+    <section className="mb-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">
+        Moje szkice ({drafts.length})
+      </h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {drafts.map((draft) => {
+          const thumbnail = draft.images.find((image) => image.thumbnail)
+            ?.thumbnail;
+          const isPublishing = publishingId === draft.draft_id;
+
+          return (
+            <div
+              key={draft.draft_id}
+              className="card border border-dashed border-gray-300"
+            >
+              <div className="card-body">
+                <div className="flex items-start space-x-3 mb-3">
+                  {thumbnail && <DraftThumbnail blob={thumbnail} />}
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {draft.order_name || "Bez nazwy"}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {draft.price ? `${draft.price} zł` : "Bez ceny"}
+                      {draft.images.length > 0 &&
+                        ` · zdjęcia: ${draft.images.length}`}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Zapisano {formatDraftTime(draft.updated_at)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => openDraft(draft)}
+                    disabled={isPublishing}
+                    className="btn-secondary text-sm"
+                  >
+                    Edytuj
+                  </button>
+                  <button
+                    onClick={() => handlePublish(draft)}
+                    disabled={publishingId !== null}
+                    className="btn-primary text-sm disabled:opacity-50"
+                  >
+                    {isPublishing ? "Publikowanie..." : "Opublikuj"}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(draft)}
+                    disabled={isPublishing}
+                    className="btn-danger text-sm"
+                  >
+                    Usuń
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+function DraftThumbnail({ blob }: { blob: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url ? (
+    <img
+      src={url}
+      alt=""
+      className="w-16 h-16 rounded-md object-cover flex-shrink-0"
+    />
+  ) : null;
+}
+
+export default OrderDrafts;
@@ -0,0 +1,141 @@
+import React from "react";
+import {
+  DEFAULT_ORDER_FILTERS,
+  ORDER_SORTS,
+  type OrderFilters,
+  type OrderSort,
+} from "../lib/orderSearch";
+
+interface OrderFilterPanelProps {
+  filters: OrderFilters;
+  onChange: (filters: OrderFilters) => void;
+}
+
+export function OrderFilterPanel({ filters, onChange }: OrderFilterPanelProps) {
+  const update = <K extends keyof OrderFilters>(
+    key: K,
+    value: OrderFilters[K],
+  ) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  const resetFilters = () => {
+    // The search query, category, view and sort order are not part of the
+    // panel
+    onChange({
+      ...DEFAULT_ORDER_FILTERS,
+      query: filters.query,
+      category: filters.category,
+      matchSkills: filters.matchSkills,
+      sort: filters.sort,
+    });
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="card-body">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Cena (PLN)
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="od"
+                className="input-field"
+                value={filters.minPrice}
+                onChange={(e) => update("minPrice", e.target.value)}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="do"
+                className="input-field"
+                value={filters.maxPrice}
+                onChange={(e) => update("maxPrice", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Data dodania
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                className="input-field"
+                value={filters.createdFrom}
+                max={filters.createdTo || undefined}
+                onChange={(e) => update("createdFrom", e.target.value)}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="date"
+                className="input-field"
+                value={filters.createdTo}
+                min={filters.createdFrom || undefined}
+                onChange={(e) => update("createdTo", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col justify-end space-y-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="rounded text-indigo-600 focus:ring-indigo-500"
+                checked={filters.hasImages}
+                onChange={(e) => update("hasImages", e.target.checked)}
+              />
+              <span>Tylko ze zdjęciami</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="rounded text-indigo-600 focus:ring-indigo-500"
+                checked={filters.excludeMine}
+                onChange={(e) => update("excludeMine", e.target.checked)}
+              />
+              <span>Ukryj moje zlecenia</span>
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sortuj według
+            </label>
+            <select
+              className="input-field"
+              value={filters.sort}
+              onChange={(e) => update("sort", e.target.value as OrderSort)}
+            >
+              {ORDER_SORTS.map((sort) => (
+                <option key={sort.value} value={sort.value}>
+                  {sort.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            Wyczyść filtry
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OrderFilterPanel;
@@ -0,0 +1,43 @@
+import React from "react";
+import { getCategoryLabel, getOrderCategory } from "../lib/orderCategories";
+import type { Order } from "../types";
+
+// Category and tags of an order. `matchedSkills` are highlighted among the
+// tags, the ones not naming a tag are listed after them.
+export function OrderLabels({
+  order,
+  matchedSkills = [],
+}: {
+  order: Order;
+  matchedSkills?: string[];
+}) {
+  const tags = order.tags ?? [];
+  const otherMatches = matchedSkills.filter((skill) => !tags.includes(skill));
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="status-badge bg-gray-100 text-gray-700">
+        {getCategoryLabel(getOrderCategory(order))}
+      </span>
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className={`text-xs ${
+            matchedSkills.includes(tag)
+              ? "rounded-full bg-green-100 px-2 py-0.5 font-medium text-green-800"
+              : "text-indigo-600"
+          }`}
+        >
+          #{tag}
+        </span>
+      ))}
+      {otherMatches.length > 0 && (
+        <span className="text-xs text-green-700">
+          Pasuje: {otherMatches.join(", ")}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default OrderLabels;
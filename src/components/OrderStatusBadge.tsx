@@ -0,0 +1,15 @@
+import React from "react";
+import { ORDER_STATUS_CONFIG, getOrderStatus } from "../lib/orderStatus";
+import type { Order } from "../types";
+
+export function OrderStatusBadge({ order }: { order: Order }) {
+  const config = ORDER_STATUS_CONFIG[getOrderStatus(order)];
+
+  return (
+    <span className={`status-badge ${config.className} whitespace-nowrap`}>
+      {config.label}
+    </span>
+  );
+}
+
+export default OrderStatusBadge;
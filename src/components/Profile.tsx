@@ -1,31 +1,9 @@
-import React, { useState, useEffect } from "react";
-
-interface Review {
-  review_id: number;
-  user_reviewed: number;
-  user_reviewing: number;
-  rating: number;
-  content: string;
-  created_at: string;
-}
-
-interface User {
-  user_id: number;
-  username: string;
-  email: string;
-  password_hash: string;
-  created_at: string;
-}
-
-interface Order {
-  order_id: number;
-  user_id: number;
-  order_name: string;
-  order_desc: string;
-  price: number;
-  image_urls: string[];
-  created_at: string;
-}
+import React, { useState } from "react";
+import { createReview, ordersByUser, reviewsByUser, users } from "../lib/store";
+import { useEntities, useEntity, useList } from "../hooks/useResource";
+import { markdownExcerpt } from "../lib/markdown";
+import NotificationSettings from "./NotificationSettings";
+import ProfileSkills from "./ProfileSkills";
 
 interface ProfileProps {
   userId: number;
@@ -34,130 +12,40 @@ interface ProfileProps {
   onClose: () => void;
 }
 
-const API_BASE = "https://techni-zlecenia-4wdh.shuttle.app";
-
 export function Profile({
   userId,
   currentUserId,
   token,
   onClose,
 }: ProfileProps) {
-  const [user, setUser] = useState<User | null>(null);
-  const [reviews, setReviews] = useState<Review[]>([]);
-  const [userOrders, setUserOrders] = useState<Order[]>([]);
-  const [reviewers, setReviewers] = useState<{ [key: number]: User }>({});
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: user, isLoading } = useEntity(users, userId);
+  const { data: reviews = [] } = useList(reviewsByUser, userId);
+  const { data: userOrders = [] } = useList(ordersByUser, userId);
+  const reviewers = useEntities(
+    users,
+    reviews.map((review) => review.user_reviewing).filter(Boolean),
+  );
   const [showReviewForm, setShowReviewForm] = useState(false);
   const [newReview, setNewReview] = useState({ rating: 5, content: "" });
   const [activeTab, setActiveTab] = useState<"info" | "reviews" | "orders">(
     "info",
   );
 
-  useEffect(() => {
-    fetchUserData();
-  }, [userId]);
-
-  const fetchUserData = async () => {
-    setIsLoading(true);
-    try {
-      await Promise.all([fetchUser(), fetchReviews(), fetchUserOrders()]);
-    } catch (error) {
-      console.error("Error fetching user data:", error);
-    }
-    setIsLoading(false);
-  };
-
-  const fetchUser = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/user/${userId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-      }
-    } catch (error) {
-      console.error("Error fetching user:", error);
-    }
-  };
-
-  const fetchReviews = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/reviews/for/${userId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const reviewsData = await response.json();
-        setReviews(reviewsData);
-
-        // Fetch reviewer details for each review
-        for (const review of reviewsData) {
-          if (review.user_reviewing) {
-            await fetchReviewer(review.user_reviewing);
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching reviews:", error);
-    }
-  };
-
-  const fetchReviewer = async (reviewerId: number) => {
-    if (reviewers[reviewerId]) return;
-
-    try {
-      const response = await fetch(`${API_BASE}/user/${reviewerId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const reviewer = await response.json();
-        setReviewers((prev) => ({ ...prev, [reviewerId]: reviewer }));
-      }
-    } catch (error) {
-      console.error("Error fetching reviewer:", error);
-    }
-  };
-
-  const fetchUserOrders = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/orders/user/${userId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const ordersData = await response.json();
-        setUserOrders(ordersData);
-      }
-    } catch (error) {
-      console.error("Error fetching user orders:", error);
-    }
-  };
-
   const submitReview = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newReview.content.trim()) return;
 
     try {
-      const response = await fetch(`${API_BASE}/review`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          rating: newReview.rating,
-          content: newReview.content.trim(),
-        }),
+      // Refetches the reviews as well
+      await createReview({
+        user_id: userId,
+        rating: newReview.rating,
+        content: newReview.content.trim(),
       });
 
-      if (response.ok) {
-        setNewReview({ rating: 5, content: "" });
-        setShowReviewForm(false);
-        await fetchReviews(); // Refresh reviews
-        alert("Opinia została dodana!");
-      } else {
-        alert("Błąd podczas dodawania opinii");
-      }
+      setNewReview({ rating: 5, content: "" });
+      setShowReviewForm(false);
+      alert("Opinia została dodana!");
     } catch (error) {
       console.error("Error submitting review:", error);
       alert("Błąd podczas dodawania opinii");
@@ -362,6 +250,10 @@ export function Profile({
                 </div>
               </div>
 
+              <ProfileSkills user={user} isOwn={currentUserId === userId} />
+
+              {currentUserId === userId && <NotificationSettings />}
+
               {currentUserId !== userId && (
                 <div className="text-center">
                   <button
@@ -468,7 +360,7 @@ export function Profile({
                         {order.order_name}
                       </h3>
                       <p className="text-gray-600 mb-3 line-clamp-3">
-                        {order.order_desc}
+                        {markdownExcerpt(order.order_desc)}
                       </p>
                       <div className="flex justify-between items-center">
                         <span className="text-xl font-bold text-indigo-600">
@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { MAX_SKILLS } from "../lib/orderCategories";
+import { updateSkills } from "../lib/store";
+import TagInput from "./TagInput";
+import type { User } from "../types";
+
+// Skills listed on a profile, editable by their owner. BrowseOrders
+// matches orders against them.
+export function ProfileSkills({
+  user,
+  isOwn,
+}: {
+  user: User;
+  isOwn: boolean;
+}) {
+  const skills = user.skills ?? [];
+  const [draft, setDraft] = useState<string[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      await updateSkills(draft);
+      setDraft(null);
+    } catch (error) {
+      console.error("Error updating skills:", error);
+      alert("Błąd podczas zapisywania umiejętności");
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Umiejętności</h3>
+          {isOwn && !draft && (
+            <button
+              onClick={() => setDraft(skills)}
+              className="text-sm text-indigo-600 hover:text-indigo-800"
+            >
+              Edytuj
+            </button>
+          )}
+        </div>
+
+        {draft ? (
+          <div className="space-y-3">
+            <TagInput
+              tags={draft}
+              onChange={setDraft}
+              max={MAX_SKILLS}
+              placeholder="Np. esp32, lutowanie, druk 3d"
+            />
+            <p className="text-xs text-gray-500">
+              Zlecenia z pasującymi tagami, kategorią lub opisem pokażemy w
+              widoku „Pasujące do mnie”.
+            </p>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setDraft(null)}
+                disabled={isSaving}
+                className="btn-secondary"
+              >
+                Anuluj
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="btn-primary disabled:opacity-50"
+              >
+                {isSaving ? "Zapisywanie..." : "Zapisz"}
+              </button>
+            </div>
+          </div>
+        ) : skills.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {skills.map((skill) => (
+              <span
+                key={skill}
+                className="rounded-full bg-indigo-50 px-3 py-1 text-sm text-indigo-700"
+              >
+                {skill}
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-sm">
+            {isOwn
+              ? "Dodaj swoje umiejętności, aby łatwiej znaleźć pasujące zlecenia."
+              : "Ten użytkownik nie podał jeszcze umiejętności."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProfileSkills;
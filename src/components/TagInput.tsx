@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { MAX_TAGS, normalizeTags } from "../lib/orderCategories";
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  max?: number;
+  placeholder?: string;
+}
+
+// Free-form tags, added with Enter or a comma and normalized on the way
+export function TagInput({
+  tags,
+  onChange,
+  max = MAX_TAGS,
+  placeholder = "Dodaj tag i naciśnij Enter",
+}: TagInputProps) {
+  const [input, setInput] = useState("");
+  const isFull = tags.length >= max;
+
+  const addTags = (text: string) => {
+    onChange(normalizeTags([...tags, ...text.split(",")], max));
+    setInput("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Enter would submit the form around
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      if (input.trim()) addTags(input);
+    } else if (e.key === "Backspace" && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 rounded-md border border-gray-300 bg-white px-2 py-1.5 focus-within:ring-1 focus-within:ring-indigo-500 focus-within:border-indigo-500">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center rounded-full bg-indigo-50 px-2 py-0.5 text-sm text-indigo-700"
+        >
+          #{tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter((t) => t !== tag))}
+            className="ml-1 text-indigo-400 hover:text-indigo-700"
+            aria-label={`Usuń ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={input}
+        disabled={isFull}
+        placeholder={isFull ? `Maksymalnie ${max}` : placeholder}
+        onChange={(e) => {
+          // Pasted lists are split right away
+          if (e.target.value.includes(",")) addTags(e.target.value);
+          else setInput(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          if (input.trim()) addTags(input);
+        }}
+        className="min-w-[10rem] flex-1 border-none bg-transparent py-0.5 text-sm focus:outline-none disabled:cursor-not-allowed"
+      />
+    </div>
+  );
+}
+
+export default TagInput;
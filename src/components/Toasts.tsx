@@ -0,0 +1,48 @@
+import React from "react";
+import { useNotifications } from "../hooks/useNotifications";
+import { dismissToast, type Toast } from "../lib/notifications";
+import { navigate, navigateModal } from "../lib/router";
+
+export function Toasts() {
+  const { toasts } = useNotifications();
+
+  const handleOpen = (toast: Toast) => {
+    dismissToast(toast.id);
+    if (toast.modal) {
+      navigateModal(toast.url);
+    } else {
+      navigate(toast.url);
+    }
+  };
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[70] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role="status"
+          className="fade-in bg-white shadow-lg rounded-lg border border-gray-200 flex items-start"
+        >
+          <button
+            onClick={() => handleOpen(toast)}
+            className="flex-1 min-w-0 text-left px-4 py-3 hover:bg-gray-50 rounded-l-lg"
+          >
+            <p className="text-sm font-medium text-gray-900">{toast.title}</p>
+            <p className="text-sm text-gray-500 truncate">{toast.body}</p>
+          </button>
+          <button
+            onClick={() => dismissToast(toast.id)}
+            className="px-3 py-3 text-gray-400 hover:text-gray-600"
+            aria-label="Zamknij"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default Toasts;
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import type { FileUpload } from "../hooks/useFileUploads";
+import { formatFileSize } from "../lib/uploads";
+
+interface UploadPreviewsProps<T> {
+  uploads: FileUpload<T>[];
+  onRemove: (id: string) => void;
+  onRetry?: (id: string) => void;
+  // Makes the previews reorderable, by dragging or with the arrow buttons
+  onMove?: (id: string, index: number) => void;
+}
+
+// Picked files with their progress, thumbnails for images
+export function UploadPreviews<T>({
+  uploads,
+  onRemove,
+  onRetry,
+  onMove,
+}: UploadPreviewsProps<T>) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {uploads.map((item, index) => (
+        <div
+          key={item.id}
+          draggable={!!onMove}
+          onDragStart={() => setDraggedId(item.id)}
+          onDragEnd={() => setDraggedId(null)}
+          onDragOver={(e) => {
+            if (draggedId) e.preventDefault();
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggedId && draggedId !== item.id) onMove?.(draggedId, index);
+            setDraggedId(null);
+          }}
+          className={`relative w-24 rounded-md border bg-white overflow-hidden ${
+            draggedId === item.id
+              ? "border-indigo-400 opacity-50"
+              : "border-gray-200"
+          } ${onMove ? "cursor-move" : ""}`}
+          title={item.file.name}
+        >
+          {item.previewUrl ? (
+            <img
+              src={item.previewUrl}
+              alt={item.file.name}
+              draggable={false}
+              className="w-full h-16 object-cover"
+            />
+          ) : (
+            <div className="h-16 px-2 flex flex-col justify-center text-xs text-gray-600">
+              <span className="truncate font-medium">{item.file.name}</span>
+              <span className="text-gray-400">
+                {formatFileSize(item.file.size)}
+              </span>
+            </div>
+          )}
+
+          {item.status === "failed" ? (
+            <button
+              type="button"
+              onClick={() => onRetry?.(item.id)}
+              disabled={!onRetry}
+              className="block w-full text-xs text-red-600 bg-red-50 py-0.5"
+            >
+              {onRetry ? "Błąd, ponów" : "Błąd"}
+            </button>
+          ) : item.status !== "done" ? (
+            <div className="h-1 bg-gray-200">
+              <div
+                className="h-1 bg-indigo-600 transition-all"
+                style={{ width: `${Math.round(item.progress * 100)}%` }}
+              />
+            </div>
+          ) : (
+            onMove &&
+            uploads.length > 1 && (
+              <div className="flex justify-between text-xs text-gray-500">
+                <button
+                  type="button"
+                  onClick={() => onMove(item.id, index - 1)}
+                  disabled={index === 0}
+                  className="px-2 hover:text-indigo-600 disabled:invisible"
+                  aria-label="Przesuń w lewo"
+                >
+                  ←
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onMove(item.id, index + 1)}
+                  disabled={index === uploads.length - 1}
+                  className="px-2 hover:text-indigo-600 disabled:invisible"
+                  aria-label="Przesuń w prawo"
+                >
+                  →
+                </button>
+              </div>
+            )
+          )}
+
+          <button
+            type="button"
+            onClick={() => onRemove(item.id)}
+            className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-black bg-opacity-50 text-white text-xs leading-5 text-center hover:bg-opacity-70"
+            aria-label={item.status === "uploading" ? "Anuluj" : "Usuń"}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default UploadPreviews;
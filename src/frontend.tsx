@@ -7,8 +7,13 @@
 
 import { createRoot } from "react-dom/client";
 import { App } from "./App";
+import { loadRuntimeConfig } from "./lib/config";
+import { registerServiceWorker } from "./lib/push";
+
+async function start() {
+  await loadRuntimeConfig();
+  registerServiceWorker();
 
-function start() {
   const root = createRoot(document.getElementById("root")!);
   root.render(<App />);
 }
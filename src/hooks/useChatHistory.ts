@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api } from "../lib/api";
+import { chatConnection } from "../lib/chatConnection";
+import type { Conversation, Message, ReceiptEvent } from "../types";
+
+const PAGE_SIZE = 20;
+
+export interface ChatThread {
+  // Oldest first
+  messages: Message[];
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+const EMPTY_THREAD: ChatThread = {
+  messages: [],
+  hasMore: true,
+  isLoading: false,
+};
+
+// Merges message lists by id, keeping them in the order they were sent
+function mergeMessages(...lists: Message[][]) {
+  const byId = new Map<number, Message>();
+  for (const message of lists.flat()) byId.set(message.message_id, message);
+  return [...byId.values()].sort(
+    (a, b) =>
+      new Date(a.sent_at).getTime() - new Date(b.sent_at).getTime() ||
+      a.message_id - b.message_id,
+  );
+}
+
+// Conversation list and per-user message history of the chat. History is
+// loaded from the backend a page at a time going back, messages arriving
+// live are added with receive() and receipts with applyReceipt().
+export function useChatHistory(currentUserId: number) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(true);
+  const [threads, setThreads] = useState<{ [userId: number]: ChatThread }>(
+    {},
+  );
+  // Read by loadOlder without making it depend on every state change
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+  const loadingRef = useRef(new Set<number>());
+
+  useEffect(() => {
+    fetchConversations();
+  }, [currentUserId]);
+
+  const fetchConversations = async () => {
+    setIsLoadingConversations(true);
+    try {
+      setConversations(await api.getConversations());
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+    }
+    setIsLoadingConversations(false);
+  };
+
+  // Messages and receipts sent while disconnected never reach receive() or
+  // applyReceipt(), so the list and the newest page of every loaded thread
+  // are fetched again once the connection is back
+  useEffect(() => {
+    const refresh = () => {
+      api
+        .getConversations()
+        .then(setConversations)
+        .catch((error) => {
+          console.error("Error fetching conversations:", error);
+        });
+      for (const userId of Object.keys(threadsRef.current).map(Number)) {
+        api
+          .getMessages(userId, { limit: PAGE_SIZE })
+          .then((page) =>
+            updateThread(userId, (current) => {
+              const loadedIds = new Set(
+                current.messages.map((message) => message.message_id),
+              );
+              const overlaps =
+                page.length < PAGE_SIZE ||
+                page.some((message) => loadedIds.has(message.message_id));
+              if (overlaps) {
+                return { messages: mergeMessages(current.messages, page) };
+              }
+              // More came in than one page holds. The thread starts over from
+              // the newest page, loadOlder() fills in the rest going back.
+              const [oldest] = mergeMessages(page);
+              const since = new Date(oldest!.sent_at).getTime();
+              return {
+                messages: mergeMessages(
+                  page,
+                  // Received live since the page was requested
+                  current.messages.filter(
+                    (message) => new Date(message.sent_at).getTime() > since,
+                  ),
+                ),
+                hasMore: true,
+              };
+            }),
+          )
+          .catch((error) => {
+            console.error("Error fetching messages:", error);
+          });
+      }
+    };
+
+    let wasOpen = chatConnection.getState().status === "open";
+    return chatConnection.subscribeState(() => {
+      const isOpen = chatConnection.getState().status === "open";
+      if (isOpen && !wasOpen) refresh();
+      wasOpen = isOpen;
+    });
+  }, [currentUserId]);
+
+  const updateThread = (
+    userId: number,
+    changes: (thread: ChatThread) => Partial<ChatThread>,
+  ) =>
+    setThreads((prev) => {
+      const thread = prev[userId] ?? EMPTY_THREAD;
+      return { ...prev, [userId]: { ...thread, ...changes(thread) } };
+    });
+
+  // Loads the page before the oldest loaded message, or the newest page
+  // when nothing was loaded yet
+  const loadOlder = useCallback(async (userId: number) => {
+    const thread = threadsRef.current[userId] ?? EMPTY_THREAD;
+    if (!thread.hasMore || loadingRef.current.has(userId)) return;
+
+    loadingRef.current.add(userId);
+    updateThread(userId, () => ({ isLoading: true }));
+    try {
+      const page = await api.getMessages(userId, {
+        limit: PAGE_SIZE,
+        before: thread.messages[0]?.message_id,
+      });
+      updateThread(userId, (current) => ({
+        messages: mergeMessages(page, current.messages),
+        hasMore: page.length === PAGE_SIZE,
+        isLoading: false,
+      }));
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      updateThread(userId, () => ({ isLoading: false }));
+    }
+    loadingRef.current.delete(userId);
+  }, []);
+
+  const receive = useCallback(
+    (message: Message) => {
+      const otherId =
+        message.sender_id === currentUserId
+          ? message.receiver_id
+          : message.sender_id;
+
+      // A thread that wasn't opened yet gets the message with its first page
+      setThreads((prev) => {
+        const thread = prev[otherId];
+        if (!thread) return prev;
+        return {
+          ...prev,
+          [otherId]: {
+            ...thread,
+            messages: mergeMessages(thread.messages, [message]),
+          },
+        };
+      });
+      // Unread counts are kept by src/lib/notifications.ts
+      setConversations((prev) => [
+        { user_id: otherId, last_message: message, unread_count: 0 },
+        ...prev.filter((conversation) => conversation.user_id !== otherId),
+      ]);
+    },
+    [currentUserId],
+  );
+
+  // Marks the current user's messages delivered or read by the receiver
+  const applyReceipt = useCallback(
+    ({ user_id, message_ids, status, at }: ReceiptEvent) => {
+      const ids = new Set(message_ids);
+      const update = (message: Message): Message =>
+        ids.has(message.message_id)
+          ? {
+              ...message,
+              delivered_at: message.delivered_at ?? at,
+              ...(status === "read" && { read_at: at }),
+            }
+          : message;
+
+      setThreads((prev) => {
+        const thread = prev[user_id];
+        if (!thread) return prev;
+        return {
+          ...prev,
+          [user_id]: { ...thread, messages: thread.messages.map(update) },
+        };
+      });
+      setConversations((prev) =>
+        prev.map((conversation) =>
+          conversation.user_id === user_id
+            ? {
+                ...conversation,
+                last_message: update(conversation.last_message),
+              }
+            : conversation,
+        ),
+      );
+    },
+    [],
+  );
+
+  const getThread = (userId: number | null) =>
+    (userId !== null && threads[userId]) || EMPTY_THREAD;
+
+  return {
+    conversations,
+    isLoadingConversations,
+    getThread,
+    loadOlder,
+    receive,
+    applyReceipt,
+  };
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from "react";
+import { api } from "../lib/api";
+import {
+  chatConnection,
+  isChatMessage,
+  isSocketEvent,
+} from "../lib/chatConnection";
+import { useConnectionState } from "./useConnectionState";
+import type { Presence, PresenceEvent, TypingEvent } from "../types";
+
+// A typing indicator whose sender went quiet, e.g. closed the tab, is
+// dropped after this long. Senders repeat it more often while typing.
+const TYPING_TIMEOUT_MS = 6_000;
+
+// Online status of the given users and whether they're typing to the current
+// user. Loaded from the backend and kept current over the chat connection.
+export function useChatPresence(userIds: number[]) {
+  const { status } = useConnectionState(chatConnection);
+  const [presence, setPresence] = useState<{ [userId: number]: Presence }>(
+    {},
+  );
+  const [typing, setTyping] = useState<{ [userId: number]: boolean }>({});
+  const typingTimersRef = useRef(
+    new Map<number, ReturnType<typeof setTimeout>>(),
+  );
+  const idsKey = [...new Set(userIds)].sort((a, b) => a - b).join(",");
+
+  // Loaded again after reconnecting, events may have been missed meanwhile
+  useEffect(() => {
+    if (!idsKey || status !== "open") return;
+
+    let cancelled = false;
+    api
+      .getPresence(idsKey.split(",").map(Number))
+      .then((list) => {
+        if (cancelled) return;
+        setPresence((prev) => ({
+          ...prev,
+          ...Object.fromEntries(list.map((p) => [p.user_id, p])),
+        }));
+      })
+      .catch((error) => console.error("Error fetching presence:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, status]);
+
+  useEffect(() => {
+    const timers = typingTimersRef.current;
+    const setUserTyping = (userId: number, isTyping: boolean) => {
+      clearTimeout(timers.get(userId));
+      timers.delete(userId);
+      if (isTyping) {
+        timers.set(
+          userId,
+          setTimeout(() => setUserTyping(userId, false), TYPING_TIMEOUT_MS),
+        );
+      }
+      setTyping((prev) =>
+        !!prev[userId] === isTyping ? prev : { ...prev, [userId]: isTyping },
+      );
+    };
+
+    const unsubscribe = chatConnection.subscribe((data) => {
+      if (isSocketEvent<PresenceEvent>(data, "presence")) {
+        const { type, ...userPresence } = data;
+        setPresence((prev) => ({ ...prev, [data.user_id]: userPresence }));
+      } else if (isSocketEvent<TypingEvent>(data, "typing")) {
+        setUserTyping(data.user_id, data.is_typing);
+      } else if (isChatMessage(data)) {
+        // The message they were typing arrived
+        setUserTyping(data.sender_id, false);
+      }
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  return { presence, typing };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import type { RealtimeConnection } from "../lib/realtime";
+
+// Status and outbox of a realtime connection
+export function useConnectionState<T>(connection: RealtimeConnection<T>) {
+  return useSyncExternalStore(connection.subscribeState, connection.getState);
+}
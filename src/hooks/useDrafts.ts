@@ -0,0 +1,17 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { getDrafts, loadDrafts, subscribeDrafts } from "../lib/drafts";
+
+// Order drafts of the user on this browser, newest first. undefined while
+// loading.
+export function useDrafts(userId: number | null) {
+  const drafts = useSyncExternalStore(subscribeDrafts, getDrafts);
+
+  useEffect(() => {
+    if (userId === null) return;
+    loadDrafts(userId).catch((error) =>
+      console.error("Error loading drafts:", error),
+    );
+  }, [userId]);
+
+  return userId === null ? undefined : drafts[userId];
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isImageType } from "../lib/uploads";
+
+export interface FileUpload<T> {
+  id: string;
+  file: File;
+  // Object URL for image previews, null for other files
+  previewUrl: string | null;
+  status: "preparing" | "uploading" | "done" | "failed";
+  // Of the current step, 0 to 1
+  progress: number;
+  // What gets uploaded, once prepared
+  data?: Blob;
+  // Returned by `prepare` along with the data
+  preview?: Blob;
+  // What `upload` resolved to
+  result?: T;
+}
+
+export interface PreparedFile {
+  data: Blob;
+  // Shown instead of the picked file, e.g. a downscaled thumbnail
+  preview?: Blob;
+}
+
+// Turns a picked file into what gets sent, reporting the done fraction
+export type PrepareFn = (
+  file: File,
+  onProgress: (fraction: number) => void,
+) => Promise<PreparedFile>;
+
+// Sends a prepared file to the backend, reporting the sent fraction. The
+// signal aborts when the file is removed.
+export type UploadFn<T> = (
+  file: File,
+  data: Blob,
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal,
+) => Promise<T>;
+
+// A file that went through the pipeline before, e.g. in a saved draft. It
+// continues from the first step it's missing.
+export interface RestoredUpload<T> {
+  file: File;
+  data?: Blob;
+  preview?: Blob;
+  result?: T;
+}
+
+export interface FileUploadOptions<T> {
+  // The file is sent as is by default
+  prepare?: PrepareFn;
+  // Files are done once prepared without it
+  upload?: UploadFn<T>;
+}
+
+const asIs: PrepareFn = async (file) => ({ data: file });
+
+let nextUploadId = 1;
+
+// Picked files on their way through the upload pipeline: prepared, then
+// passed to `upload` when given. The list keeps the picking order unless
+// files are moved.
+export function useFileUploads<T = void>({
+  prepare = asIs,
+  upload,
+}: FileUploadOptions<T> = {}) {
+  const [uploads, setUploads] = useState<FileUpload<T>[]>([]);
+  // Read by the callbacks and the cleanup on unmount
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+  // Of the uploads in flight, by file id
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Stops the upload and frees the preview of a file leaving the list
+  const release = (item?: FileUpload<T>) => {
+    if (!item) return;
+    if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    controllersRef.current.get(item.id)?.abort();
+    controllersRef.current.delete(item.id);
+  };
+
+  useEffect(() => () => uploadsRef.current.forEach(release), []);
+
+  const update = (id: string, changes: Partial<FileUpload<T>>) =>
+    setUploads((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+    );
+
+  const run = async (id: string, file: File, data?: Blob) => {
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    try {
+      if (data === undefined) {
+        update(id, { status: "preparing", progress: 0 });
+        const prepared = await prepare(file, (progress) =>
+          update(id, { progress }),
+        );
+        data = prepared.data;
+        // Removed while being prepared
+        if (controller.signal.aborted) return;
+        if (prepared.preview) {
+          const item = uploadsRef.current.find((u) => u.id === id);
+          if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl);
+          update(id, {
+            previewUrl: URL.createObjectURL(prepared.preview),
+            preview: prepared.preview,
+          });
+        }
+        update(id, { data });
+      }
+      if (!upload) {
+        update(id, { status: "done", progress: 1 });
+        return;
+      }
+      update(id, { status: "uploading", progress: 0 });
+      const result = await upload(
+        file,
+        data,
+        (progress) => update(id, { progress }),
+        controller.signal,
+      );
+      update(id, { status: "done", progress: 1, result });
+    } catch (error) {
+      // Removed, nothing left to update
+      if (controller.signal.aborted) return;
+      console.error("Error uploading file:", error);
+      update(id, { status: "failed" });
+    } finally {
+      if (controllersRef.current.get(id) === controller) {
+        controllersRef.current.delete(id);
+      }
+    }
+  };
+
+  const restore = (entries: RestoredUpload<T>[]) => {
+    const added = entries.map(
+      ({ file, data, preview, result }): FileUpload<T> => {
+        const isDone = data !== undefined && (!upload || result !== undefined);
+        return {
+          id: `upload-${nextUploadId++}`,
+          file,
+          previewUrl: preview
+            ? URL.createObjectURL(preview)
+            : isImageType(file.type)
+              ? URL.createObjectURL(file)
+              : null,
+          status: isDone ? "done" : "preparing",
+          progress: isDone ? 1 : 0,
+          data,
+          preview,
+          result,
+        };
+      },
+    );
+    uploadsRef.current = [...uploadsRef.current, ...added];
+    setUploads((prev) => [...prev, ...added]);
+    added
+      .filter((item) => item.status !== "done")
+      .forEach((item) => run(item.id, item.file, item.data));
+  };
+
+  const add = (files: FileList | File[]) =>
+    restore(Array.from(files).map((file) => ({ file })));
+
+  // Failed files start over from the step that failed
+  const retry = (id: string) => {
+    const item = uploadsRef.current.find((u) => u.id === id);
+    if (item?.status === "failed") run(item.id, item.file, item.data);
+  };
+
+  // Cancels the upload when it's still in flight
+  const remove = (id: string) => {
+    release(uploadsRef.current.find((u) => u.id === id));
+    setUploads((prev) => prev.filter((u) => u.id !== id));
+  };
+
+  // Puts the file at `index` of the list
+  const move = (id: string, index: number) =>
+    setUploads((prev) => {
+      const item = prev.find((u) => u.id === id);
+      if (!item) return prev;
+      const rest = prev.filter((u) => u.id !== id);
+      const target = Math.max(0, Math.min(index, rest.length));
+      return [...rest.slice(0, target), item, ...rest.slice(target)];
+    });
+
+  const clear = useCallback(() => {
+    uploadsRef.current.forEach(release);
+    setUploads([]);
+  }, []);
+
+  return {
+    uploads,
+    add,
+    restore,
+    retry,
+    remove,
+    move,
+    clear,
+    // Still preparing or uploading
+    isBusy: uploads.some(
+      (item) => item.status === "preparing" || item.status === "uploading",
+    ),
+  };
+}
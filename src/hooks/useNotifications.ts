@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+import {
+  getNotifications,
+  subscribeNotifications,
+} from "../lib/notifications";
+
+// Unread message counts and toasts of the logged-in user
+export function useNotifications() {
+  const state = useSyncExternalStore(subscribeNotifications, getNotifications);
+  const totalUnread = Object.values(state.unread).reduce(
+    (sum, count) => sum + count,
+    0,
+  );
+  return { ...state, totalUnread };
+}
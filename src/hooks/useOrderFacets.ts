@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { api } from "../lib/api";
+import type { CategoryCounts } from "../lib/orderCategories";
+import type { OrderSearch } from "../lib/orderSearch";
+
+// Category counts for the facets of a search, null until loaded or when the
+// backend doesn't provide them. Refetched with the search or `refreshKey`.
+export function useOrderFacets(search: OrderSearch, refreshKey = 0) {
+  const [counts, setCounts] = useState<CategoryCounts | null>(null);
+  // The category of the search doesn't change the counts
+  const searchKey = JSON.stringify({ ...search, category: undefined });
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getOrderFacets(JSON.parse(searchKey))
+      .then((loaded) => {
+        if (!cancelled) setCounts(loaded);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error fetching order facets:", error);
+        setCounts(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchKey, refreshKey]);
+
+  return counts;
+}
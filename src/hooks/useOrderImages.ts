@@ -0,0 +1,76 @@
+import type { DraftImage } from "../lib/drafts";
+import {
+  MAX_ORDER_IMAGES,
+  processImage,
+  uploadOrderImage,
+  validateImageFile,
+} from "../lib/images";
+import {
+  useFileUploads,
+  type PrepareFn,
+  type UploadFn,
+} from "./useFileUploads";
+
+const prepareOrderImage: PrepareFn = async (file, onProgress) => {
+  const { image, thumbnail } = await processImage(file, onProgress);
+  return { data: image, preview: thumbnail };
+};
+
+const uploadImage: UploadFn<string> = (file, image, onProgress, signal) =>
+  uploadOrderImage(image, file.name, { onProgress, signal });
+
+// New photos of an order, processed in the browser and uploaded right away.
+// `keptCount` existing photos count towards the limit.
+export function useOrderImages(keptCount = 0) {
+  const images = useFileUploads({
+    prepare: prepareOrderImage,
+    upload: uploadImage,
+  });
+
+  // Files over the limits are left out, with the reasons in an alert
+  const add = (files: FileList | File[]) => {
+    const picked = Array.from(files);
+    const problems = picked.flatMap((file) => validateImageFile(file) ?? []);
+    const valid = picked.filter((file) => !validateImageFile(file));
+    const room = Math.max(
+      0,
+      MAX_ORDER_IMAGES - keptCount - images.uploads.length,
+    );
+    if (valid.length > room) {
+      problems.push(`Zlecenie może mieć najwyżej ${MAX_ORDER_IMAGES} zdjęć`);
+    }
+    if (problems.length > 0) alert(problems.join("\n"));
+    images.add(valid.slice(0, room));
+  };
+
+  // Photos of a draft, where the ones not uploaded yet continue
+  const restoreDraft = (draftImages: DraftImage[]) =>
+    images.restore(
+      draftImages.map(({ name, blob, isProcessed, thumbnail, url }) => {
+        const file = new File([blob], name, { type: blob.type });
+        return isProcessed
+          ? { file, data: blob, preview: thumbnail, result: url }
+          : { file };
+      }),
+    );
+
+  return {
+    ...images,
+    add,
+    restoreDraft,
+    // URLs of the uploaded photos, in the chosen order
+    urls: images.uploads.flatMap((item) => item.result ?? []),
+    // To be retried or removed before saving
+    hasFailed: images.uploads.some((item) => item.status === "failed"),
+    // For saving in a draft
+    draftImages: images.uploads.map(
+      (item): DraftImage => ({
+        name: item.file.name,
+        blob: item.data ?? item.file,
+        isProcessed: item.data !== undefined,
+        thumbnail: item.preview,
+        url: item.result,
+      }),
+    ),
+  };
+}
@@ -0,0 +1,95 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { api } from "../lib/api";
+import { orders as orderStore } from "../lib/store";
+import type { OrderSearch } from "../lib/orderSearch";
+import type { Order } from "../types";
+
+const PAGE_SIZE = 12;
+
+// Paginated /orders/search. Changing the search or `refreshKey` starts over
+// from the first page; loadMore() appends the next one. The results are kept
+// in the order cache, so edits made elsewhere show up here as well.
+export function useOrderSearch(search: OrderSearch, refreshKey = 0) {
+  const [orderIds, setOrderIds] = useState<number[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  // Responses for an outdated query are dropped
+  const requestIdRef = useRef(0);
+  // Read by loadPage to tell whether a page brought anything new
+  const orderIdsRef = useRef(orderIds);
+  // Callers build a new object on every render, compare by value instead
+  const searchKey = JSON.stringify(search);
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      const requestId = ++requestIdRef.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const page = await api.searchOrdersPage(JSON.parse(searchKey), {
+          limit: PAGE_SIZE,
+          offset,
+        });
+        if (requestId !== requestIdRef.current) return;
+
+        orderStore.setMany(page.items);
+        const pageIds = page.items.map((order) => order.order_id);
+        const previousIds = offset === 0 ? [] : orderIdsRef.current;
+        const seen = new Set(previousIds);
+        const addedIds = pageIds.filter((id) => !seen.has(id));
+        orderIdsRef.current = [...previousIds, ...addedIds];
+        setOrderIds(orderIdsRef.current);
+        // A backend ignoring the offset returns the same page over and over
+        setNextOffset(
+          offset > 0 && addedIds.length === 0 ? null : page.nextOffset,
+        );
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        console.error("Error fetching orders:", error);
+        setError(error);
+      }
+      setIsLoading(false);
+    },
+    [searchKey],
+  );
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage, refreshKey]);
+
+  const version = useSyncExternalStore(
+    orderStore.subscribeAll,
+    orderStore.getVersion,
+  );
+  // Deleted orders drop out
+  const orders = useMemo(
+    () =>
+      orderIds
+        .map((id) => orderStore.peek(id))
+        .filter((order): order is Order => order !== undefined),
+    [orderIds, version],
+  );
+
+  const loadMore = useCallback(() => {
+    if (nextOffset !== null && !isLoading) {
+      loadPage(nextOffset);
+    }
+  }, [nextOffset, isLoading, loadPage]);
+
+  return {
+    orders,
+    hasMore: nextOffset !== null,
+    isLoading,
+    error,
+    loadMore,
+  };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getPushState, subscribePush } from "../lib/push";
+
+// Browser notification settings of the logged-in user
+export function usePushState() {
+  return useSyncExternalStore(subscribePush, getPushState);
+}
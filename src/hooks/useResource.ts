@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import type { Entry, EntityResource, ListResource } from "../lib/resource";
+
+const NO_ENTRY: Entry<never> = {
+  value: undefined,
+  error: undefined,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+const noop = () => () => {};
+
+// Subscribes to one key of a resource and revalidates it on mount and when
+// the key changes. A null key reads nothing, e.g. while an id is unknown.
+function useEntry<K, T>(
+  resource: {
+    get: (key: K) => Entry<T>;
+    subscribe: (key: K, listener: () => void) => () => void;
+    revalidate: (key: K) => void;
+    fetch: (key: K) => Promise<T>;
+  },
+  key: K | null,
+) {
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      key === null ? noop() : resource.subscribe(key, listener),
+    [resource, key],
+  );
+  const entry = useSyncExternalStore(subscribe, () =>
+    key === null ? NO_ENTRY : resource.get(key),
+  );
+
+  useEffect(() => {
+    if (key !== null) resource.revalidate(key);
+  }, [resource, key]);
+
+  const refetch = useCallback(
+    () => (key === null ? Promise.resolve(undefined) : resource.fetch(key)),
+    [resource, key],
+  );
+
+  return {
+    entry,
+    refetch,
+    isLoading: key !== null && entry.value === undefined && !entry.error,
+  };
+}
+
+// One record, e.g. useEntity(users, userId)
+export function useEntity<T>(resource: EntityResource<T>, id: number | null) {
+  const { entry, refetch, isLoading } = useEntry(resource, id);
+  return {
+    data: entry.value,
+    error: entry.error,
+    isLoading,
+    isFetching: entry.isFetching,
+    refetch,
+  };
+}
+
+// Several records at once, keyed by id. Missing ones are fetched together
+// and show up as they arrive.
+export function useEntities<T>(resource: EntityResource<T>, ids: number[]) {
+  const version = useSyncExternalStore(
+    resource.subscribeAll,
+    resource.getVersion,
+  );
+  const idsKey = ids.join(",");
+
+  useEffect(() => {
+    for (const id of new Set(ids)) resource.revalidate(id);
+  }, [resource, idsKey]);
+
+  return useMemo(() => {
+    const loaded: { [id: number]: T } = {};
+    for (const id of ids) {
+      const value = resource.peek(id);
+      if (value !== undefined) loaded[id] = value;
+    }
+    return loaded;
+  }, [resource, idsKey, version]);
+}
+
+// A list of records, re-rendering when the list or any record in it changes
+export function useList<K, T>(list: ListResource<K, T>, key: K | null) {
+  const { entry, refetch, isLoading } = useEntry(list, key);
+  const version = useSyncExternalStore(
+    list.entity.subscribeAll,
+    list.entity.getVersion,
+  );
+  const data = useMemo(
+    () => list.resolve(entry.value),
+    // `version` changes whenever a record is updated
+    [list, entry.value, version],
+  );
+
+  return {
+    data,
+    error: entry.error,
+    isLoading,
+    isFetching: entry.isFetching,
+    refetch,
+  };
+}
+
+// Several lists flattened into one, e.g. the offers on all of a user's
+// orders. Doesn't fetch anything, the caller loads the lists, typically
+// through a batch endpoint.
+export function useLists<K, T>(list: ListResource<K, T>, keys: K[]) {
+  const listVersion = useSyncExternalStore(
+    list.subscribeAll,
+    list.getVersion,
+  );
+  const version = useSyncExternalStore(
+    list.entity.subscribeAll,
+    list.entity.getVersion,
+  );
+  const keysKey = keys.map(String).join(",");
+
+  return useMemo(
+    () => keys.flatMap((key) => list.peek(key) ?? []),
+    [list, keysKey, listVersion, version],
+  );
+}
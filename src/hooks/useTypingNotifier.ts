@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef } from "react";
+import { chatConnection, type TypingSignal } from "../lib/chatConnection";
+
+// While the user types, the signal is repeated this often so the receiver's
+// indicator doesn't time out
+const TYPING_REFRESH_MS = 3_000;
+// The user stopped typing when nothing was typed for this long
+const TYPING_IDLE_MS = 4_000;
+
+// Tells `receiverId` that the user is typing to them. Call onType() on every
+// change of the input; the indicator is cleared once the user goes idle,
+// sends the message (stop()) or switches to another conversation.
+export function useTypingNotifier(receiverId: number | null) {
+  // Receiver the last "typing" signal went to, null when it was cleared
+  const typingToRef = useRef<number | null>(null);
+  const lastSentRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const emit = (receiver_id: number, is_typing: boolean) => {
+    const signal: TypingSignal = { type: "typing", receiver_id, is_typing };
+    chatConnection.emit(signal);
+  };
+
+  const stop = useCallback(() => {
+    clearTimeout(idleTimerRef.current);
+    if (typingToRef.current !== null) emit(typingToRef.current, false);
+    typingToRef.current = null;
+  }, []);
+
+  useEffect(() => stop, [receiverId, stop]);
+
+  const onType = useCallback(() => {
+    if (receiverId === null) return;
+
+    const now = Date.now();
+    if (
+      typingToRef.current !== receiverId ||
+      now - lastSentRef.current > TYPING_REFRESH_MS
+    ) {
+      emit(receiverId, true);
+      typingToRef.current = receiverId;
+      lastSentRef.current = now;
+    }
+    clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stop, TYPING_IDLE_MS);
+  }, [receiverId, stop]);
+
+  return { onType, stop };
+}
@@ -1,11 +1,47 @@
 import { serve } from "bun";
 import index from "./index.html";
+import { MOCK_API_PREFIX, mockRoutes } from "./server/mock";
+import { PROXY_PREFIX, proxyRequest, proxySocketData } from "./server/proxy";
+import { serveServiceWorker } from "./server/serviceWorker";
+import { UPLOADS_PREFIX, uploadRoutes } from "./server/uploads";
+import { websocket } from "./server/websocket";
+
+// MOCK_API=1 serves an in-memory backend under /mock-api, see src/server/mock
+const mockEnabled = process.env.MOCK_API === "1";
+// Without UPLOAD_URL files go to a local stand-in, see src/server/uploads.ts
+const uploadStandInEnabled = !process.env.UPLOAD_URL;
+
+// Mounted depending on the environment above. Their handlers are typed in
+// their own modules, serve() doesn't need to know about these paths.
+const optionalRoutes: object = {
+  ...(mockEnabled && mockRoutes),
+  ...(uploadStandInEnabled && uploadRoutes),
+};
 
 const server = serve({
   routes: {
     // Serve index.html for all unmatched routes.
     "/*": index,
 
+    // Push notifications, see src/sw.ts
+    "/sw.js": serveServiceWorker,
+
+    // Backend origins for the frontend, see src/lib/config.ts. By default the
+    // frontend goes through the same-origin proxy mounted at /api below.
+    "/api/config": {
+      GET() {
+        return Response.json({
+          apiUrl:
+            process.env.API_URL ||
+            (mockEnabled ? MOCK_API_PREFIX : PROXY_PREFIX),
+          wsUrl: process.env.WS_URL || undefined,
+          uploadUrl: process.env.UPLOAD_URL || UPLOADS_PREFIX,
+        });
+      },
+    },
+
+    ...optionalRoutes,
+
     "/api/hello": {
       async GET(req) {
         return Response.json({
@@ -27,8 +63,19 @@ const server = serve({
         message: `Hello, ${name}!`,
       });
     },
+
+    // Everything else under /api goes to BACKEND_URL, see src/server/proxy.ts
+    "/api/*": (req, server) => {
+      if (req.headers.get("upgrade")?.toLowerCase() === "websocket") {
+        if (server.upgrade(req, { data: proxySocketData(req) })) return;
+        return new Response("WebSocket upgrade failed", { status: 400 });
+      }
+      return proxyRequest(req);
+    },
   },
 
+  websocket,
+
   development: process.env.NODE_ENV !== "production" && {
     // Enable browser hot reloading in development
     hmr: true,
@@ -39,3 +86,9 @@ const server = serve({
 });
 
 console.log(`🚀 Server running at ${server.url}`);
+if (mockEnabled) {
+  console.log(`🧪 Mock API enabled at ${new URL(MOCK_API_PREFIX, server.url)}`);
+}
+if (uploadStandInEnabled) {
+  console.log(`📁 Local uploads at ${new URL(UPLOADS_PREFIX, server.url)}`);
+}
@@ -0,0 +1,446 @@
+import type {
+  Attachment,
+  Conversation,
+  Message,
+  NotificationPreferences,
+  Offer,
+  Order,
+  OrderCategory,
+  OrderStatus,
+  Presence,
+  Review,
+  User,
+} from "../types";
+import { getConfig } from "./config";
+import type { CategoryCounts } from "./orderCategories";
+import {
+  applyOrderSearch,
+  orderSearchParams,
+  type OrderSearch,
+} from "./orderSearch";
+
+// Error thrown for every failed API call. `status` is 0 when the request
+// never reached the server (network failure, CORS, aborted request).
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(message: string, status: number, body = "") {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401 || this.status === 403;
+  }
+
+  get isNotFound() {
+    return this.status === 404;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+// Images are sent to the upload service first, see src/lib/fileUploader.ts,
+// and referenced by the URLs it returned
+export interface NewOrder {
+  order_name: string;
+  order_desc: string;
+  price: number;
+  image_urls: string[];
+  category: OrderCategory;
+  // Normalized, see normalizeTags()
+  tags: string[];
+}
+
+// `image_urls` replaces the images of the order, existing ones left out are
+// removed
+export type OrderUpdate = NewOrder;
+
+export interface OfferTerms {
+  proposed_price: number;
+  // YYYY-MM-DD
+  completion_date: string;
+  message: string;
+}
+
+export interface NewOffer extends OfferTerms {
+  order_id: number;
+}
+
+export interface NewReview {
+  user_id: number;
+  rating: number;
+  content: string;
+}
+
+// A file sent to the upload service, see src/lib/fileUploader.ts
+export interface NewAttachment {
+  name: string;
+  mime_type: string;
+  size: number;
+  url: string;
+}
+
+export interface PageParams {
+  limit: number;
+  offset: number;
+}
+
+// Cursor into a chat history, pages go back in time
+export interface MessagePageParams {
+  limit: number;
+  // Only messages older than this one, omitted for the newest page
+  before?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Offset of the next page, null when this was the last one
+  nextOffset: number | null;
+}
+
+const FALLBACK_CONCURRENCY = 6;
+
+// Runs `fn` over `items` with at most `limit` calls in flight, results keep
+// the order of `items`
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: unknown;
+  auth?: boolean;
+  responseType?: "json" | "text";
+}
+
+export function createApiClient(getToken: () => string | null) {
+  const request = async <T>(
+    path: string,
+    {
+      method = "GET",
+      body,
+      auth = true,
+      responseType = "json",
+    }: RequestOptions = {},
+  ): Promise<T> => {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (auth) {
+      const token = getToken();
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${getConfig().apiUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ApiError(
+        `${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+        0,
+      );
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new ApiError(
+        `${method} ${path} failed with status ${response.status}`,
+        response.status,
+        text,
+      );
+    }
+
+    if (responseType === "text") {
+      return text as T;
+    }
+    if (!text) {
+      return undefined as T;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new ApiError(
+        `${method} ${path} returned invalid JSON`,
+        response.status,
+        text,
+      );
+    }
+  };
+
+  const encode = (value: string | number) => encodeURIComponent(String(value));
+
+  // Batch endpoints take a comma separated id list and are newer than the
+  // per-id ones. Whether the backend has one is decided by the first answer:
+  // any error status means it doesn't, as backends without it may answer
+  // 404, 405 or 500 alike, and the ids go one by one instead, a few requests
+  // at a time. Once a batch call worked, errors are real errors.
+  const batchSupport = new Map<string, boolean>();
+  const batch = async <T>(
+    path: string,
+    ids: number[],
+    fetchOne: (id: number) => Promise<T[]>,
+  ): Promise<T[]> => {
+    if (ids.length === 0) return [];
+    if (batchSupport.get(path) !== false) {
+      try {
+        const results = await request<T[]>(
+          `${path}${ids.map(encode).join(",")}`,
+        );
+        batchSupport.set(path, true);
+        return results;
+      } catch (error) {
+        if (
+          batchSupport.get(path) ||
+          !(error instanceof ApiError) ||
+          error.isNetworkError ||
+          error.isUnauthorized
+        ) {
+          throw error;
+        }
+        batchSupport.set(path, false);
+      }
+    }
+    const results = await mapWithConcurrency(
+      ids,
+      FALLBACK_CONCURRENCY,
+      async (id) => {
+        try {
+          return await fetchOne(id);
+        } catch (error) {
+          // Like the batch endpoint, leave out ids that don't exist
+          if (error instanceof ApiError && error.isNotFound) return [];
+          throw error;
+        }
+      },
+    );
+    return results.flat();
+  };
+
+  return {
+    // Users
+    login: (username: string, password: string) =>
+      request<string>("/user/login", {
+        method: "POST",
+        body: { username, password },
+        auth: false,
+        responseType: "text",
+      }),
+    register: (username: string, email: string, password: string) =>
+      request<void>("/user/register", {
+        method: "POST",
+        body: { username, email, password },
+        auth: false,
+        responseType: "text",
+      }),
+    getUser: (userId: number) => request<User>(`/user/${encode(userId)}`),
+    getUsers: (userIds: number[]) =>
+      batch<User>("/user/batch?ids=", userIds, async (id) => [
+        await request<User>(`/user/${encode(id)}`),
+      ]),
+    searchUsers: (query = "") =>
+      request<User[]>(`/user/search?query=${encode(query)}`),
+    // Replaces the skills of the logged-in user, normalized like in
+    // normalizeTags()
+    updateSkills: (skills: string[]) =>
+      request<User>("/user/skills", {
+        method: "PUT",
+        body: { skills },
+      }),
+    // Chat presence, kept current by "presence" events on the chat socket
+    getPresence: (userIds: number[]) =>
+      request<Presence[]>(`/user/presence?ids=${userIds.join(",")}`),
+
+    // Orders
+    searchOrders: (query = "") =>
+      request<Order[]>(`/orders/search?query=${encode(query)}`),
+    searchOrdersPage: async (
+      search: OrderSearch,
+      { limit, offset }: PageParams,
+    ): Promise<Page<Order>> => {
+      const params = orderSearchParams(search);
+      params.set("limit", String(limit));
+      params.set("offset", String(offset));
+      const items = await request<Order[]>(`/orders/search?${params}`);
+
+      // A backend without pagination support returns every match at once,
+      // so filter, sort and slice the requested page out of the full list
+      if (items.length > limit) {
+        const all = applyOrderSearch(items, search);
+        return {
+          items: all.slice(offset, offset + limit),
+          nextOffset: offset + limit < all.length ? offset + limit : null,
+        };
+      }
+      // Only a full page of matches can be followed by more
+      const matching = applyOrderSearch(items, search);
+      return {
+        items: matching,
+        nextOffset: matching.length === limit ? offset + limit : null,
+      };
+    },
+    // Matches of the search in each category, the category of the search
+    // itself ignored so the other ones can be offered
+    getOrderFacets: (search: OrderSearch) =>
+      request<CategoryCounts>(
+        `/orders/facets?${orderSearchParams({ ...search, category: undefined })}`,
+      ),
+    getUserOrders: (userId: number) =>
+      request<Order[]>(`/orders/user/${encode(userId)}`),
+    getOrder: (orderId: number) => request<Order>(`/orders/${encode(orderId)}`),
+    getOrders: (orderIds: number[]) =>
+      batch<Order>("/orders/batch?ids=", orderIds, async (id) => [
+        await request<Order>(`/orders/${encode(id)}`),
+      ]),
+    createOrder: (order: NewOrder) =>
+      request<void>("/order", {
+        method: "POST",
+        body: order,
+        responseType: "text",
+      }),
+    updateOrder: (orderId: number, order: OrderUpdate) =>
+      request<void>(`/orders/${encode(orderId)}`, {
+        method: "POST",
+        body: order,
+        responseType: "text",
+      }),
+    updateOrderStatus: (orderId: number, status: OrderStatus) =>
+      request<void>(`/orders/${encode(orderId)}/status`, {
+        method: "POST",
+        body: { status },
+        responseType: "text",
+      }),
+    deleteOrder: (orderId: number) =>
+      request<void>(`/orders/${encode(orderId)}`, {
+        method: "DELETE",
+        responseType: "text",
+      }),
+
+    // Offers
+    createOffer: (offer: NewOffer) =>
+      request<void>("/offer", {
+        method: "POST",
+        body: offer,
+        responseType: "text",
+      }),
+    getUserOffers: (userId: number) =>
+      request<Offer[]>(`/offers/user/${encode(userId)}`),
+    getOrderOffers: (orderId: number) =>
+      request<Offer[]>(`/offers/order/${encode(orderId)}`),
+    // Offers on any of the given orders, e.g. all offers received by a user
+    getOffersForOrders: (orderIds: number[]) =>
+      batch<Offer>("/offers/batch?order_ids=", orderIds, (id) =>
+        request<Offer[]>(`/offers/order/${encode(id)}`),
+      ),
+    updateOfferStatus: (offerId: number, status: string) =>
+      request<void>(`/offers/${encode(offerId)}`, {
+        method: "POST",
+        body: { status },
+        responseType: "text",
+      }),
+    counterOffer: (offerId: number, terms: OfferTerms) =>
+      request<void>(`/offers/${encode(offerId)}/counter`, {
+        method: "POST",
+        body: terms,
+        responseType: "text",
+      }),
+    deleteOffer: (offerId: number) =>
+      request<void>(`/offers/${encode(offerId)}`, {
+        method: "DELETE",
+        responseType: "text",
+      }),
+
+    // Messages, sent and received live over the /messages/listen WebSocket
+    getConversations: () => request<Conversation[]>("/messages/conversations"),
+    // Oldest first
+    getMessages: (userId: number, { limit, before }: MessagePageParams) => {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (before !== undefined) params.set("before", String(before));
+      return request<Message[]>(`/messages/with/${encode(userId)}?${params}`);
+    },
+    // Sent in a message by its id afterwards
+    createAttachment: (attachment: NewAttachment) =>
+      request<Attachment>("/messages/attachments", {
+        method: "POST",
+        body: attachment,
+      }),
+    markConversationRead: (userId: number) =>
+      request<void>(`/messages/with/${encode(userId)}/read`, {
+        method: "POST",
+        responseType: "text",
+      }),
+
+    // Reviews
+    createReview: (review: NewReview) =>
+      request<void>("/review", {
+        method: "POST",
+        body: review,
+        responseType: "text",
+      }),
+    getReviewsFor: (userId: number) =>
+      request<Review[]>(`/reviews/for/${encode(userId)}`),
+
+    // Notifications of the logged-in user
+    getNotificationPreferences: () =>
+      request<NotificationPreferences>("/notifications/preferences"),
+    updateNotificationPreferences: (preferences: NotificationPreferences) =>
+      request<NotificationPreferences>("/notifications/preferences", {
+        method: "PUT",
+        body: preferences,
+      }),
+    // VAPID public key of the backend, base64url encoded
+    getPushKey: () =>
+      request<string>("/notifications/push/key", { responseType: "text" }),
+    savePushSubscription: (subscription: PushSubscriptionJSON) =>
+      request<void>("/notifications/push/subscriptions", {
+        method: "POST",
+        body: subscription,
+        responseType: "text",
+      }),
+    deletePushSubscription: (endpoint: string) =>
+      request<void>("/notifications/push/subscriptions", {
+        method: "DELETE",
+        body: { endpoint },
+        responseType: "text",
+      }),
+    sendTestPush: () =>
+      request<void>("/notifications/push/test", {
+        method: "POST",
+        responseType: "text",
+      }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Default client, authenticated with the token AuthProvider keeps in localStorage
+export const api = createApiClient(() => localStorage.getItem("token"));
+
+export default api;
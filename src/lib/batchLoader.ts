@@ -0,0 +1,55 @@
+import { ApiError } from "./api";
+
+// Collects the ids requested during one tick into a single batch request.
+// Caching and deduplication of loaded values live in the resources of
+// src/lib/store.ts, which call `load` only for ids they don't have yet.
+
+export interface BatchLoader<V> {
+  load(id: number): Promise<V>;
+}
+
+export function createBatchLoader<V>(
+  fetchBatch: (ids: number[]) => Promise<V[]>,
+  getId: (value: V) => number,
+  { maxBatchSize = 50 } = {},
+): BatchLoader<V> {
+  let queue: {
+    id: number;
+    resolve: (value: V) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  const dispatch = async (batch: typeof queue) => {
+    try {
+      const ids = [...new Set(batch.map((item) => item.id))];
+      const values = await fetchBatch(ids);
+      const byId = new Map(values.map((value) => [getId(value), value]));
+      for (const item of batch) {
+        const value = byId.get(item.id);
+        if (value !== undefined) {
+          item.resolve(value);
+        } else {
+          item.reject(new ApiError(`${item.id} not found`, 404));
+        }
+      }
+    } catch (error) {
+      for (const item of batch) item.reject(error);
+    }
+  };
+
+  const flush = () => {
+    const pending = queue;
+    queue = [];
+    for (let i = 0; i < pending.length; i += maxBatchSize) {
+      dispatch(pending.slice(i, i + maxBatchSize));
+    }
+  };
+
+  return {
+    load: (id) =>
+      new Promise<V>((resolve, reject) => {
+        if (queue.length === 0) queueMicrotask(flush);
+        queue.push({ id, resolve, reject });
+      }),
+  };
+}
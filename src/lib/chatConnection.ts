@@ -0,0 +1,55 @@
+import { getConfig } from "./config";
+import { createRealtimeConnection } from "./realtime";
+import type { Message } from "../types";
+
+// The app's chat socket. It outlives the chat window so queued messages keep
+// being retried after it's closed, and is shut down on logout.
+
+export interface OutgoingMessage {
+  sender_id: number;
+  receiver_id: number;
+  content: string;
+  // Echoed back by the server with the stored message
+  client_id: string;
+  // Created with api.createAttachment() beforehand
+  attachment_ids?: number[];
+}
+
+// Sent with emit() while the user types to `receiver_id`
+export interface TypingSignal {
+  type: "typing";
+  receiver_id: number;
+  is_typing: boolean;
+}
+
+export const isChatMessage = (data: unknown): data is Message =>
+  typeof data === "object" && data !== null && "message_id" in data;
+
+// Events pushed over the socket next to messages, told apart by `type`
+export const isSocketEvent = <T extends { type: string }>(
+  data: unknown,
+  type: T["type"],
+): data is T =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as { type?: unknown }).type === type;
+
+// Unique enough to tell a user's own queued messages apart
+export const createClientId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const chatConnection = createRealtimeConnection<OutgoingMessage>({
+  url: () => {
+    const token = localStorage.getItem("token") ?? "";
+    return `${getConfig().wsUrl}/messages/listen?token=${encodeURIComponent(token)}`;
+  },
+  // The server sends every message back to its sender as well. Backends that
+  // don't return client_id are matched on the contents instead.
+  isAck: (data, { payload }) =>
+    isChatMessage(data) &&
+    (data.client_id
+      ? data.client_id === payload.client_id
+      : data.sender_id === payload.sender_id &&
+        data.receiver_id === payload.receiver_id &&
+        data.content === payload.content),
+});
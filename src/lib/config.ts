@@ -0,0 +1,78 @@
+// Backend origins used by the frontend.
+//
+// Resolution order (first match wins):
+//   1. runtime config served by the Bun server at /api/config
+//   2. build-time BUN_PUBLIC_API_URL / BUN_PUBLIC_WS_URL /
+//      BUN_PUBLIC_UPLOAD_URL, inlined by Bun
+//   3. the production shuttle.app backend
+// The WebSocket origin and the upload service are derived from the HTTP
+// origin unless set explicitly.
+
+export const DEFAULT_API_URL = "https://techni-zlecenia-4wdh.shuttle.app";
+
+export interface AppConfig {
+  apiUrl: string;
+  wsUrl: string;
+  // Chunked file uploads, see src/lib/fileUploader.ts
+  uploadUrl: string;
+}
+
+// Bun replaces these references with string literals when the variables are
+// set at build time. Otherwise `process` does not exist in the browser.
+function readBuildConfig(): Partial<AppConfig> {
+  try {
+    return {
+      apiUrl: process.env.BUN_PUBLIC_API_URL || undefined,
+      wsUrl: process.env.BUN_PUBLIC_WS_URL || undefined,
+      uploadUrl: process.env.BUN_PUBLIC_UPLOAD_URL || undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+export function deriveWsUrl(apiUrl: string) {
+  const url = new URL(apiUrl, window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return trimSlash(url.toString());
+}
+
+function resolveConfig(
+  runtime: Partial<AppConfig>,
+  build: Partial<AppConfig>,
+): AppConfig {
+  const source = runtime.apiUrl ? runtime : build;
+  const apiUrl = trimSlash(source.apiUrl || DEFAULT_API_URL);
+  const wsUrl = trimSlash(runtime.wsUrl || source.wsUrl || deriveWsUrl(apiUrl));
+  const uploadUrl = trimSlash(
+    runtime.uploadUrl || source.uploadUrl || `${apiUrl}/uploads`,
+  );
+  return { apiUrl, wsUrl, uploadUrl };
+}
+
+const buildConfig = readBuildConfig();
+let config = resolveConfig({}, buildConfig);
+
+export function getConfig(): AppConfig {
+  return config;
+}
+
+// Fetches /api/config from the serving origin. Static deployments have no
+// such endpoint, in which case the build-time config stays in effect.
+export async function loadRuntimeConfig(): Promise<AppConfig> {
+  try {
+    const response = await fetch("/api/config", {
+      headers: { Accept: "application/json" },
+    });
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (response.ok && contentType.includes("application/json")) {
+      const runtime = (await response.json()) as Partial<AppConfig>;
+      config = resolveConfig(runtime, buildConfig);
+    }
+  } catch (error) {
+    console.warn("Runtime config unavailable, using build config:", error);
+  }
+  return config;
+}
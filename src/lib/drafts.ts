@@ -0,0 +1,182 @@
+import { processImage, uploadOrderImage } from "./images";
+import { createOrder } from "./store";
+import type { OrderCategory } from "../types";
+
+// Unpublished orders, autosaved by CreateOrder to IndexedDB so a reload or an
+// expired session doesn't lose them. Photos are stored as blobs: processed
+// ones along with their thumbnail and, once uploaded, their URL. Drafts
+// belong to the user who wrote them and stay on this browser.
+
+export interface DraftImage {
+  name: string;
+  // The processed photo, or the picked file when it wasn't processed yet
+  blob: Blob;
+  isProcessed: boolean;
+  thumbnail?: Blob;
+  // Set once uploaded
+  url?: string;
+}
+
+export interface OrderDraft {
+  draft_id: string;
+  user_id: number;
+  order_name: string;
+  order_desc: string;
+  // As typed, may not be a valid number yet
+  price: string;
+  // Missing from drafts saved before orders had categories, and until one
+  // is picked
+  category?: OrderCategory;
+  tags?: string[];
+  images: DraftImage[];
+  updated_at: string;
+}
+
+// Newest first, undefined until loaded
+export type DraftsState = { [userId: number]: OrderDraft[] | undefined };
+
+const DB_NAME = "zlecenia";
+const DB_VERSION = 1;
+const STORE_NAME = "orderDrafts";
+
+let state: DraftsState = {};
+const listeners = new Set<() => void>();
+let database: Promise<IDBDatabase> | null = null;
+
+export const getDrafts = () => state;
+
+export function subscribeDrafts(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const setUserDrafts = (userId: number, drafts: OrderDraft[]) => {
+  state = {
+    ...state,
+    [userId]: [...drafts].sort((a, b) =>
+      b.updated_at.localeCompare(a.updated_at),
+    ),
+  };
+  listeners.forEach((listener) => listener());
+};
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase() {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "draft_id",
+      });
+      store.createIndex("user_id", "user_id");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Opened again on the next call
+  database.catch(() => (database = null));
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+) {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return toPromise(fn(store));
+}
+
+export const createDraftId = () => crypto.randomUUID();
+
+export async function loadDrafts(userId: number) {
+  const drafts = await withStore<OrderDraft[]>("readonly", (store) =>
+    store.index("user_id").getAll(userId),
+  );
+  setUserDrafts(userId, drafts);
+  return getDrafts()[userId]!;
+}
+
+export async function getDraft(draftId: string) {
+  return (
+    (await withStore<OrderDraft | undefined>("readonly", (store) =>
+      store.get(draftId),
+    )) ?? null
+  );
+}
+
+export async function saveDraft(draft: OrderDraft) {
+  await withStore("readwrite", (store) => store.put(draft));
+  const others = (state[draft.user_id] ?? []).filter(
+    (d) => d.draft_id !== draft.draft_id,
+  );
+  setUserDrafts(draft.user_id, [draft, ...others]);
+}
+
+export async function deleteDraft(
+  draft: Pick<OrderDraft, "draft_id" | "user_id">,
+) {
+  await withStore("readwrite", (store) => store.delete(draft.draft_id));
+  const drafts = state[draft.user_id];
+  if (drafts) {
+    setUserDrafts(
+      draft.user_id,
+      drafts.filter((d) => d.draft_id !== draft.draft_id),
+    );
+  }
+}
+
+// "o 14:05" today, "3 paź, 14:05" before
+export function formatDraftTime(isoDate: string) {
+  const date = new Date(isoDate);
+  const time = date.toLocaleTimeString("pl-PL", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  if (date.toDateString() === new Date().toDateString()) return `o ${time}`;
+  const day = date.toLocaleDateString("pl-PL", {
+    day: "numeric",
+    month: "short",
+  });
+  return `${day}, ${time}`;
+}
+
+// Has everything an order needs
+export const isDraftComplete = (draft: OrderDraft) =>
+  !!draft.order_name.trim() &&
+  !!draft.order_desc.trim() &&
+  Number.isFinite(parseFloat(draft.price)) &&
+  !!draft.category;
+
+// Uploads the photos that weren't uploaded yet, creates the order and
+// removes the draft
+export async function publishDraft(draft: OrderDraft) {
+  const imageUrls: string[] = [];
+  for (const image of draft.images) {
+    if (image.url) {
+      imageUrls.push(image.url);
+      continue;
+    }
+    const blob = image.isProcessed
+      ? image.blob
+      : (await processImage(image.blob)).image;
+    imageUrls.push(await uploadOrderImage(blob, image.name));
+  }
+
+  await createOrder({
+    order_name: draft.order_name.trim(),
+    order_desc: draft.order_desc,
+    price: parseFloat(draft.price),
+    image_urls: imageUrls,
+    category: draft.category ?? "other",
+    tags: draft.tags ?? [],
+  });
+  await deleteDraft(draft);
+}
@@ -0,0 +1,150 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { uploadRoutes } from "../server/uploads";
+import { getConfig } from "./config";
+import { createFileUploader, type UploadSession } from "./fileUploader";
+
+// The uploader talks to the local stand-in, UPLOADS_DIR is a temporary
+// directory, see src/test/setup.ts
+const server = Bun.serve({ port: 0, routes: uploadRoutes });
+afterAll(() => server.stop(true));
+
+const CHUNK_SIZE = 256 * 1024;
+const realFetch = fetch;
+
+// Requests sent to the service, as "PUT /uploads/:id"
+let requests: string[];
+// Lets a test fail a request, before or after it reaches the service
+let intercept: (
+  request: string,
+  send: () => Promise<Response>,
+) => Promise<Response>;
+
+beforeEach(() => {
+  requests = [];
+  intercept = (_, send) => send();
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(
+      String(input).replace(getConfig().uploadUrl, `${server.url}uploads`),
+    );
+    const path = url.pathname.replace(/[0-9a-f-]{36}/, ":id");
+    const request = `${init?.method ?? "GET"} ${path}`;
+    requests.push(request);
+    return intercept(request, () => realFetch(url, init));
+  };
+  spyOn(globalThis, "fetch").mockImplementation(mockFetch as typeof fetch);
+  // Retries are logged
+  spyOn(console, "warn").mockImplementation(() => {});
+});
+afterEach(() => mock.restore());
+
+const createFile = (size: number) =>
+  new Blob([new Uint8Array(size).map((_, i) => i % 251)]);
+
+async function expectUploaded(url: string, file: Blob) {
+  const response = await realFetch(url);
+  expect(new Uint8Array(await response.arrayBuffer())).toEqual(
+    new Uint8Array(await file.arrayBuffer()),
+  );
+}
+
+test("sends the file in chunks at the confirmed offsets", async () => {
+  const uploader = createFileUploader(() => null);
+  const file = createFile(2 * CHUNK_SIZE + 1000);
+  const progress: number[] = [];
+
+  const url = await uploader.upload(file, {
+    name: "plik.bin",
+    onProgress: (fraction) => progress.push(fraction),
+  });
+
+  expect(requests).toEqual([
+    "POST /uploads",
+    "PUT /uploads/:id",
+    "PUT /uploads/:id",
+    "PUT /uploads/:id",
+  ]);
+  expect(progress).toEqual([
+    0,
+    CHUNK_SIZE / file.size,
+    (2 * CHUNK_SIZE) / file.size,
+    1,
+  ]);
+  await expectUploaded(url, file);
+});
+
+test("resumes from the service's offset after a lost response", async () => {
+  const uploader = createFileUploader(() => null);
+  const file = createFile(CHUNK_SIZE + 1000);
+  let failed = false;
+  // The first chunk arrives, its response doesn't
+  intercept = async (request, send) => {
+    const response = await send();
+    if (request.startsWith("PUT") && !failed) {
+      failed = true;
+      throw new TypeError("Network connection lost");
+    }
+    return response;
+  };
+
+  const url = await uploader.upload(file, { name: "plik.bin" });
+
+  expect(requests).toEqual([
+    "POST /uploads",
+    "PUT /uploads/:id",
+    "GET /uploads/:id",
+    "PUT /uploads/:id",
+  ]);
+  await expectUploaded(url, file);
+});
+
+test("continues the session of a failed upload of the same file", async () => {
+  const uploader = createFileUploader(() => null);
+  const file = createFile(CHUNK_SIZE + 1000);
+  let puts = 0;
+  intercept = async (request, send) =>
+    request.startsWith("PUT") && ++puts === 2
+      ? new Response("Payload rejected", { status: 400 })
+      : send();
+
+  const failed = uploader.upload(file, { name: "plik.bin" });
+  await expect(failed).rejects.toMatchObject({ status: 400 });
+
+  requests = [];
+  const url = await uploader.upload(file, { name: "plik.bin" });
+  expect(requests).toEqual(["GET /uploads/:id", "PUT /uploads/:id"]);
+  await expectUploaded(url, file);
+});
+
+test("deletes the partial upload when aborted", async () => {
+  const uploader = createFileUploader(() => null);
+  const controller = new AbortController();
+  let session: UploadSession | undefined;
+  let deleted: Promise<Response> | undefined;
+  intercept = async (request, send) => {
+    if (request.startsWith("DELETE")) return (deleted = send());
+    const response = await send();
+    if (request.startsWith("POST")) session = await response.clone().json();
+    if (request.startsWith("PUT")) controller.abort();
+    return response;
+  };
+
+  const upload = uploader.upload(createFile(CHUNK_SIZE + 1000), {
+    name: "plik.bin",
+    signal: controller.signal,
+  });
+  await expect(upload).rejects.toThrow();
+
+  // Sent without waiting for the answer
+  while (!deleted) await Bun.sleep(5);
+  expect((await deleted).status).toBe(204);
+  const sessionUrl = `${server.url}uploads/${session!.upload_id}`;
+  expect((await realFetch(sessionUrl)).status).toBe(404);
+});
@@ -0,0 +1,219 @@
+import { ApiError } from "./api";
+import { getConfig } from "./config";
+import { backoffDelay } from "./realtime";
+
+// Client of the upload service (getConfig().uploadUrl, src/server/uploads.ts
+// in development). Files are sent in chunks, each one PUT at the offset the
+// service has confirmed so far:
+// - network errors and 5xx responses are retried with backoff, resuming
+//   from the offset the service reports, after waiting to be back online
+// - a failed upload of the same Blob resumes its session when started again
+// - aborting the signal stops sending and deletes the partial upload
+
+export interface UploadSession {
+  upload_id: string;
+  size: number;
+  offset: number;
+  // Suggested by the service
+  chunk_size?: number;
+  // Where the file is served, null until complete
+  url: string | null;
+}
+
+export interface UploadOptions {
+  // Stored with the file and used in its URL
+  name: string;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+// Consecutive failed requests before giving up
+const MAX_ATTEMPTS = 6;
+const MIN_RETRY_MS = 1_000;
+const MAX_RETRY_MS = 15_000;
+
+const isRetryable = (error: unknown) =>
+  error instanceof ApiError && (error.isNetworkError || error.status >= 500);
+
+// Rejects with the abort reason when the signal fires first
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+const waitForOnline = (signal?: AbortSignal) =>
+  navigator.onLine
+    ? Promise.resolve()
+    : new Promise<void>((resolve, reject) => {
+        const onOnline = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          window.removeEventListener("online", onOnline);
+          reject(signal!.reason);
+        };
+        window.addEventListener("online", onOnline, { once: true });
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+
+export function createFileUploader(getToken: () => string | null) {
+  // Sessions of unfinished uploads, so starting one again resumes it
+  const sessions = new WeakMap<Blob, string>();
+
+  const request = async <T>(
+    path: string,
+    init: RequestInit & { method: string },
+    // 409 carries the session with the offset the service has
+    acceptConflict = false,
+  ): Promise<T> => {
+    const headers = new Headers(init.headers);
+    const token = getToken();
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+
+    let response: Response;
+    try {
+      response = await fetch(`${getConfig().uploadUrl}${path}`, {
+        ...init,
+        headers,
+      });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new ApiError(
+        `${init.method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+        0,
+      );
+    }
+    const text = await response.text();
+    if (!response.ok && !(acceptConflict && response.status === 409)) {
+      throw new ApiError(
+        `${init.method} ${path} failed with status ${response.status}`,
+        response.status,
+        text,
+      );
+    }
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+
+  const createSession = (file: Blob, name: string, signal?: AbortSignal) =>
+    request<UploadSession>("", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, mime_type: file.type, size: file.size }),
+      signal,
+    });
+
+  const getSession = (uploadId: string, signal?: AbortSignal) =>
+    request<UploadSession>(`/${encodeURIComponent(uploadId)}`, {
+      method: "GET",
+      signal,
+    });
+
+  const sendChunk = (
+    session: UploadSession,
+    chunk: Blob,
+    signal?: AbortSignal,
+  ) =>
+    request<UploadSession>(
+      `/${encodeURIComponent(session.upload_id)}?offset=${session.offset}`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: chunk,
+        signal,
+      },
+      true,
+    );
+
+  const deleteSession = (uploadId: string) =>
+    request<void>(`/${encodeURIComponent(uploadId)}`, {
+      method: "DELETE",
+    }).catch((error) => console.error("Error cancelling upload:", error));
+
+  // The session to continue: the one of an earlier attempt when the service
+  // still has it, a new one otherwise
+  const openSession = async (
+    file: Blob,
+    name: string,
+    signal?: AbortSignal,
+  ) => {
+    const previousId = sessions.get(file);
+    if (previousId) {
+      try {
+        return await getSession(previousId, signal);
+      } catch (error) {
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+      }
+    }
+    const session = await createSession(file, name, signal);
+    sessions.set(file, session.upload_id);
+    return session;
+  };
+
+  // Resolves to the URL the file is served at
+  const upload = async (
+    file: Blob,
+    { name, onProgress, signal }: UploadOptions,
+  ): Promise<string> => {
+    // Null after a failure, reopened to learn where to continue since the
+    // failed chunk may have arrived anyway
+    let session: UploadSession | null = null;
+    let attempt = 0;
+
+    try {
+      while (true) {
+        try {
+          session ??= await openSession(file, name, signal);
+          onProgress?.(session.size ? session.offset / session.size : 1);
+          if (session.url) {
+            sessions.delete(file);
+            return session.url;
+          }
+
+          const chunkSize = session.chunk_size || DEFAULT_CHUNK_SIZE;
+          const chunk = file.slice(session.offset, session.offset + chunkSize);
+          session = await sendChunk(session, chunk, signal);
+          attempt = 0;
+        } catch (error) {
+          if (signal?.aborted || !isRetryable(error)) throw error;
+          if (++attempt >= MAX_ATTEMPTS) throw error;
+          console.warn("Upload interrupted, resuming:", error);
+
+          session = null;
+          await waitForOnline(signal);
+          await wait(
+            backoffDelay(attempt - 1, MIN_RETRY_MS, MAX_RETRY_MS),
+            signal,
+          );
+        }
+      }
+    } catch (error) {
+      const uploadId = sessions.get(file);
+      if (signal?.aborted && uploadId) {
+        sessions.delete(file);
+        deleteSession(uploadId);
+      }
+      throw error;
+    }
+  };
+
+  return { upload };
+}
+
+// Default uploader, authenticated like the default API client
+export const fileUploader = createFileUploader(() =>
+  localStorage.getItem("token"),
+);
+
+export default fileUploader;
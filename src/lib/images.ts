@@ -0,0 +1,121 @@
+import { fileUploader, type UploadOptions } from "./fileUploader";
+import { formatFileSize, INLINE_IMAGE_TYPES } from "./uploads";
+
+// Order photos are prepared in the browser before they're sent: checked
+// against the limits, downscaled and re-encoded. Drawing through a canvas
+// drops all metadata, EXIF location included, after the EXIF orientation
+// has been applied to the pixels.
+
+export const ACCEPTED_IMAGE_TYPES = INLINE_IMAGE_TYPES;
+// Of the picked file, before downscaling
+export const MAX_IMAGE_FILE_SIZE = 20 * 1024 * 1024;
+export const MAX_ORDER_IMAGES = 10;
+// Longest side in pixels
+const MAX_IMAGE_DIMENSION = 1920;
+const THUMBNAIL_DIMENSION = 320;
+const IMAGE_QUALITY = 0.85;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+}
+
+// Why the file can't be used as an order photo, null when it can
+export function validateImageFile(file: File) {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name}: nieobsługiwany format (dozwolone JPEG, PNG, WebP, GIF)`;
+  }
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
+    return `${file.name}: plik większy niż ${formatFileSize(MAX_IMAGE_FILE_SIZE)}`;
+  }
+  return null;
+}
+
+// Scaled to fit `maxDimension`, never enlarged. JPEG has no transparency, so
+// it gets a white background instead of a black one.
+function drawScaled(
+  bitmap: ImageBitmap,
+  maxDimension: number,
+  background?: string,
+) {
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(bitmap.width, bitmap.height),
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas 2D context unavailable");
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+// WebP where the browser can encode it, JPEG otherwise. Browsers without a
+// WebP encoder silently return PNG.
+async function encode(
+  bitmap: ImageBitmap,
+  maxDimension: number,
+  quality: number,
+) {
+  const webp = await toBlob(
+    drawScaled(bitmap, maxDimension),
+    "image/webp",
+    quality,
+  );
+  if (webp?.type === "image/webp") return webp;
+
+  const jpeg = await toBlob(
+    drawScaled(bitmap, maxDimension, "#fff"),
+    "image/jpeg",
+    quality,
+  );
+  if (!jpeg) throw new Error("Image encoding failed");
+  return jpeg;
+}
+
+// `onProgress` gets the finished fraction of the steps, 0 to 1
+export async function processImage(
+  file: Blob,
+  onProgress?: (fraction: number) => void,
+): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: "from-image",
+  });
+  try {
+    onProgress?.(0.2);
+    const image = await encode(bitmap, MAX_IMAGE_DIMENSION, IMAGE_QUALITY);
+    onProgress?.(0.7);
+    const thumbnail = await encode(
+      bitmap,
+      THUMBNAIL_DIMENSION,
+      THUMBNAIL_QUALITY,
+    );
+    onProgress?.(1);
+    return { image, thumbnail };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Resolves to the URL of the uploaded photo. The name keeps the one of the
+// picked file, with the extension of the format it was re-encoded to.
+export function uploadOrderImage(
+  image: Blob,
+  name: string,
+  options?: Omit<UploadOptions, "name">,
+) {
+  const extension = image.type === "image/webp" ? "webp" : "jpg";
+  return fileUploader.upload(image, {
+    ...options,
+    name: `${name.replace(/\.[^.]*$/, "")}.${extension}`,
+  });
+}
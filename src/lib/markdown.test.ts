@@ -0,0 +1,189 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type Block,
+  type Inline,
+  markdownExcerpt,
+  parseMarkdown,
+  sanitizeUrl,
+} from "./markdown";
+
+const text = (value: string): Inline => ({ type: "text", text: value });
+const paragraph = (...children: Inline[]): Block => ({
+  type: "paragraph",
+  children,
+});
+// Inline nodes of a single paragraph
+const inline = (source: string) => {
+  const [block] = parseMarkdown(source);
+  if (block?.type !== "paragraph") {
+    throw new Error(`Not a paragraph: ${source}`);
+  }
+  return block.children;
+};
+
+describe("sanitizeUrl", () => {
+  test("keeps safe and relative URLs", () => {
+    expect(sanitizeUrl(" https://example.com ")).toBe("https://example.com");
+    expect(sanitizeUrl("mailto:jan@example.com")).toBe(
+      "mailto:jan@example.com",
+    );
+    expect(sanitizeUrl("/orders/1")).toBe("/orders/1");
+  });
+
+  test("rejects other protocols, also when obfuscated", () => {
+    expect(sanitizeUrl("javascript:alert(1)")).toBeNull();
+    expect(sanitizeUrl("JavaScript:alert(1)")).toBeNull();
+    expect(sanitizeUrl("java\tscript:alert(1)")).toBeNull();
+    expect(sanitizeUrl("data:text/html,x")).toBeNull();
+  });
+});
+
+describe("blocks", () => {
+  test("headings, rules and paragraphs with line breaks", () => {
+    expect(parseMarkdown("## Tytuł ##\n\n---\nraz\ndwa")).toEqual([
+      { type: "heading", level: 2, children: [text("Tytuł")] },
+      { type: "rule" },
+      paragraph(text("raz"), { type: "break" }, text("dwa")),
+    ]);
+  });
+
+  test("fenced code keeps its content verbatim", () => {
+    expect(parseMarkdown("```ts\nconst a = *b*;\n\n```")).toEqual([
+      { type: "code", language: "ts", text: "const a = *b*;\n" },
+    ]);
+    // An unclosed fence runs to the end
+    expect(parseMarkdown("~~~\nx")).toEqual([
+      { type: "code", language: "", text: "x" },
+    ]);
+  });
+
+  test("block quotes contain blocks", () => {
+    expect(parseMarkdown("> # A\n> b")).toEqual([
+      {
+        type: "quote",
+        children: [
+          { type: "heading", level: 1, children: [text("A")] },
+          paragraph(text("b")),
+        ],
+      },
+    ]);
+  });
+
+  test("lists, nested by indenting", () => {
+    expect(parseMarkdown("3. a\n   - b\n4. c")).toEqual([
+      {
+        type: "list",
+        ordered: true,
+        start: 3,
+        items: [
+          [
+            paragraph(text("a")),
+            {
+              type: "list",
+              ordered: false,
+              start: 1,
+              items: [[paragraph(text("b"))]],
+            },
+          ],
+          [paragraph(text("c"))],
+        ],
+      },
+    ]);
+  });
+
+  test("a year at the start of a line doesn't start a list", () => {
+    expect(parseMarkdown("Od\n2024. roku")).toEqual([
+      paragraph(text("Od"), { type: "break" }, text("2024. roku")),
+    ]);
+  });
+
+  test("tables with alignment, padded to the header", () => {
+    expect(parseMarkdown("| A | B |\n|:--|--:|\n| 1 \\| 2 |")).toEqual([
+      {
+        type: "table",
+        align: ["left", "right"],
+        header: [[text("A")], [text("B")]],
+        rows: [[[text("1 | 2")], []]],
+      },
+    ]);
+  });
+});
+
+describe("inline", () => {
+  test("emphasis, nested and strikethrough", () => {
+    expect(inline("*a **b** c* ~~d~~")).toEqual([
+      {
+        type: "em",
+        children: [
+          text("a "),
+          { type: "strong", children: [text("b")] },
+          text(" c"),
+        ],
+      },
+      text(" "),
+      { type: "del", children: [text("d")] },
+    ]);
+  });
+
+  test("underscores inside words and unclosed delimiters stay text", () => {
+    expect(inline("snake_case_name")).toEqual([text("snake_case_name")]);
+    expect(inline("2 * 3 * 4")).toEqual([text("2 * 3 * 4")]);
+    expect(inline("**a")).toEqual([text("**a")]);
+  });
+
+  test("code spans and escapes aren't parsed further", () => {
+    expect(inline("`` a`*b*` `` \\*c\\*")).toEqual([
+      { type: "code", text: "a`*b*`" },
+      text(" *c*"),
+    ]);
+  });
+
+  test("links, with unsafe URLs left without a target", () => {
+    const source = "[strona](https://example.com) [x](javascript:alert(1))";
+    expect(inline(source)).toEqual([
+      { type: "link", href: "https://example.com", children: [text("strona")] },
+      text(" "),
+      { type: "link", href: null, children: [text("x")] },
+    ]);
+  });
+
+  test("images are shown as links", () => {
+    expect(inline("![zdjęcie](/a.png)")).toEqual([
+      { type: "link", href: "/a.png", children: [text("zdjęcie")] },
+    ]);
+  });
+
+  test("bare URLs without trailing punctuation", () => {
+    expect(inline("Zobacz https://example.com/a_(b).")).toEqual([
+      text("Zobacz "),
+      {
+        type: "link",
+        href: "https://example.com/a_(b)",
+        children: [text("https://example.com/a_(b)")],
+      },
+      text("."),
+    ]);
+  });
+
+  test("stays fast on many unclosed delimiters", () => {
+    for (const unit of ["_a ", "*a ", "**a ", "~~a ", "[a ", "`a "]) {
+      const source = unit.repeat(60_000 / unit.length);
+      const started = performance.now();
+      parseMarkdown(source);
+      expect(performance.now() - started).toBeLessThan(1000);
+    }
+  });
+});
+
+describe("markdownExcerpt", () => {
+  test("flattens the text on one line", () => {
+    expect(
+      markdownExcerpt("# Tytuł\n\n- **a**\n- [b](https://example.com)"),
+    ).toBe("Tytuł a b");
+  });
+
+  test("cuts long text at a word boundary", () => {
+    expect(markdownExcerpt("jeden dwa trzy cztery", 12)).toBe("jeden dwa…");
+    expect(markdownExcerpt("a bardzodlugiewyrazy", 12)).toBe("a bardzodlug…");
+  });
+});
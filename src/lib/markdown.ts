@@ -0,0 +1,497 @@
+// Markdown of order descriptions, parsed into a tree that
+// components/Markdown.tsx renders as React elements. There is no HTML
+// passthrough, so text can't inject markup, and links are limited to safe
+// protocols. Supported:
+// - headings, paragraphs, block quotes, horizontal rules
+// - bullet and numbered lists, nested by indenting
+// - fenced code blocks and `code` spans
+// - tables with the header delimiter row, column alignment included
+// - **bold**, *italic*, ~~strikethrough~~, [links](url) and bare URLs
+// Single newlines are kept as line breaks, like the plain text descriptions
+// written before Markdown was supported.
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em" | "del"; children: Inline[] }
+  // href is null when the URL was unsafe, the text is shown without a link
+  | { type: "link"; href: string | null; children: Inline[] }
+  | { type: "break" };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type Block =
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "code"; language: string; text: string }
+  | { type: "quote"; children: Block[] }
+  | { type: "list"; ordered: boolean; start: number; items: Block[][] }
+  | {
+      type: "table";
+      align: TableAlign[];
+      header: Inline[][];
+      rows: Inline[][][];
+    }
+  | { type: "rule" };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:\s+|$)(.*)$/;
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+// The URL when it's relative or uses a safe protocol, null otherwise
+export function sanitizeUrl(url: string) {
+  const trimmed = url.trim();
+  // Browsers ignore whitespace and control characters in the scheme, as in
+  // "java\tscript:"
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(
+    trimmed.replace(/[\u0000- ]/g, ""),
+  );
+  if (scheme && !SAFE_PROTOCOLS.includes(scheme[1]!.toLowerCase() + ":")) {
+    return null;
+  }
+  return trimmed;
+}
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+const isOrderedMarker = (marker: string) => /\d/.test(marker);
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i]!.includes("|") &&
+  i + 1 < lines.length &&
+  lines[i + 1]!.includes("-") &&
+  TABLE_DELIMITER.test(lines[i + 1]!);
+
+// Lines that end a paragraph without a blank line before them. Numbered
+// lists only when starting at 1, so "2024. was a good year" stays text.
+function interruptsParagraph(lines: string[], i: number) {
+  const line = lines[i]!;
+  const item = LIST_ITEM.exec(line);
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    (!!item && !!item[3] && (!isOrderedMarker(item[2]!) || item[2] === "1.")) ||
+    isTableStart(lines, i)
+  );
+}
+
+// Cells of a table row, "\|" is a pipe inside a cell
+function splitRow(line: string) {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":");
+  if (left && right) return "center";
+  if (right) return "right";
+  return left ? "left" : null;
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1]!;
+      const indent = indentOf(line);
+      const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i]!)) {
+        const codeLine = lines[i]!;
+        code.push(codeLine.slice(Math.min(indent, indentOf(codeLine))));
+        i++;
+      }
+      // Past the closing fence, a missing one closes at the end
+      i++;
+      blocks.push({
+        type: "code",
+        language: fence[2] ?? "",
+        text: code.join("\n"),
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1]!.length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline(heading[2] ?? ""),
+      });
+      i++;
+      continue;
+    }
+
+    // Before lists, "* * *" is a rule
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i]!)) {
+        quoted.push(lines[i]!.replace(QUOTE, ""));
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const firstItem = LIST_ITEM.exec(line);
+    if (firstItem) {
+      const ordered = isOrderedMarker(firstItem[2]!);
+      const items: Block[][] = [];
+
+      while (i < lines.length) {
+        // Blank lines between items keep the list going
+        let next = i;
+        while (next < lines.length && !lines[next]!.trim()) next++;
+        const item = next < lines.length && LIST_ITEM.exec(lines[next]!);
+        if (!item || isOrderedMarker(item[2]!) !== ordered) break;
+        if (item[1]!.length > indentOf(line)) break;
+
+        const markerIndent = item[1]!.length;
+        const contentIndent = markerIndent + item[2]!.length + 1;
+        const itemLines = [item[3]!];
+        i = next + 1;
+        while (i < lines.length) {
+          const itemLine = lines[i]!;
+          const indent = indentOf(itemLine);
+          if (!itemLine.trim()) {
+            // Part of the item when what follows is indented under it
+            const following = lines[i + 1];
+            if (following?.trim() && indentOf(following) > markerIndent) {
+              itemLines.push("");
+              i++;
+              continue;
+            }
+            break;
+          }
+          // Indented by at least two spaces, even under "1. "
+          if (indent > markerIndent + 1) {
+            itemLines.push(itemLine.slice(Math.min(indent, contentIndent)));
+            i++;
+            continue;
+          }
+          if (LIST_ITEM.test(itemLine) || interruptsParagraph(lines, i)) break;
+          // A paragraph continued without indenting
+          itemLines.push(itemLine.trim());
+          i++;
+        }
+        items.push(parseBlocks(itemLines));
+      }
+
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? parseInt(firstItem[2]!, 10) : 1,
+        items,
+      });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]!).map(parseAlign);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i]!.includes("|")) {
+        const cells = splitRow(lines[i]!);
+        // As many cells as the header has
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? "")));
+        i++;
+      }
+      blocks.push({
+        type: "table",
+        align: header.map((_, column) => align[column] ?? null),
+        header: header.map((cell) => parseInline(cell)),
+        rows,
+      });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (
+      i < lines.length &&
+      lines[i]!.trim() &&
+      !interruptsParagraph(lines, i)
+    ) {
+      paragraph.push(lines[i]!.trim());
+      i++;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+}
+
+const PUNCTUATION = /[!-/:-@[-`{-~]/;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+const BARE_URL = /^https?:\/\/[^\s<]+/;
+
+// Where the emphasis opened at `from` closes: not right after whitespace
+// and, for "*" and "_", not a part of a longer run, so "*a **b** c*" works.
+// Underscores inside words, as in snake_case, don't count.
+function findClosing(text: string, delimiter: string, from: number) {
+  const char = delimiter[0]!;
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    const before = text[index - 1]!;
+    const after = text[index + delimiter.length];
+    const isLonger =
+      delimiter.length === 1 && (after === char || before === char);
+    const isIntraword =
+      char === "_" && after !== undefined && WORD_CHARACTER.test(after);
+    if (index > from && !/\s/.test(before) && !isLonger && !isIntraword) {
+      return index;
+    }
+    index = text.indexOf(delimiter, index + (isLonger ? 2 : 1));
+  }
+  return -1;
+}
+
+// Index of the "]" closing each "[" that has one, nested brackets included
+function findLabelEnds(text: string) {
+  const ends = new Map<number, number>();
+  const open: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === "[") open.push(i);
+    else if (text[i] === "]" && open.length) ends.set(open.pop()!, i);
+  }
+  return ends;
+}
+
+// A bare URL without the punctuation that usually follows one in a
+// sentence, closing parentheses only when unbalanced
+function trimBareUrl(url: string) {
+  let end = url.length;
+  while (end > 0) {
+    const char = url[end - 1]!;
+    const candidate = url.slice(0, end);
+    if (/[.,:;!?'"]/.test(char)) {
+      end--;
+    } else if (
+      char === ")" &&
+      candidate.split(")").length > candidate.split("(").length
+    ) {
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  // Where the search for each delimiter's closing came up empty. Openers
+  // after it can't close either, not searching again keeps text full of
+  // unclosed "_" linear.
+  const unclosedFrom = new Map<string, number>();
+  let labelEnds: Map<number, number> | undefined;
+  let buffer = "";
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i]!;
+    const rest = text.slice(i);
+
+    if (char === "\\" && PUNCTUATION.test(text[i + 1] ?? "")) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        let code = text.slice(i + run.length, end).replace(/\n/g, " ");
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+        nodes.push({ type: "code", text: code });
+        i = end + run.length;
+      } else {
+        buffer += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    const emphasis = /^(\*\*|__|~~|\*|_)/.exec(rest)?.[0];
+    if (emphasis) {
+      const opensWord = !/\s/.test(text[i + emphasis.length] ?? " ");
+      const afterWord = i > 0 && WORD_CHARACTER.test(text[i - 1]!);
+      const start = i + emphasis.length;
+      const canOpen =
+        opensWord &&
+        !(emphasis[0] === "_" && afterWord) &&
+        start < (unclosedFrom.get(emphasis) ?? Infinity);
+      const end = canOpen ? findClosing(text, emphasis, start) : -1;
+      if (canOpen && end === -1) unclosedFrom.set(emphasis, start);
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type:
+            emphasis === "~~" ? "del" : emphasis.length === 2 ? "strong" : "em",
+          children: parseInline(text.slice(start, end)),
+        });
+        i = end + emphasis.length;
+      } else {
+        buffer += emphasis;
+        i += emphasis.length;
+      }
+      continue;
+    }
+
+    // Images are shown as links, a description can't embed pictures from
+    // anywhere
+    if (char === "[" || rest.startsWith("![")) {
+      const labelStart = char === "[" ? i : i + 1;
+      labelEnds ??= findLabelEnds(text);
+      const labelEnd = labelEnds.get(labelStart) ?? -1;
+      const target =
+        labelEnd !== -1 &&
+        /^\(\s*<?([^\s()<>]*(?:\([^\s()<>]*\)[^\s()<>]*)*)>?\s*\)/.exec(
+          text.slice(labelEnd + 1),
+        );
+      if (target) {
+        flush();
+        const label = text.slice(labelStart + 1, labelEnd);
+        nodes.push({
+          type: "link",
+          href: sanitizeUrl(target[1]!),
+          children: parseInline(label || target[1]!),
+        });
+        i = labelEnd + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    const autolink = /^<((?:https?|mailto):[^\s<>]+)>/i.exec(rest);
+    if (autolink) {
+      flush();
+      nodes.push({
+        type: "link",
+        href: sanitizeUrl(autolink[1]!),
+        children: [{ type: "text", text: autolink[1]! }],
+      });
+      i += autolink[0].length;
+      continue;
+    }
+
+    const bareUrl =
+      char === "h" &&
+      !(i > 0 && WORD_CHARACTER.test(text[i - 1]!)) &&
+      BARE_URL.exec(rest);
+    if (bareUrl) {
+      const url = trimBareUrl(bareUrl[0]);
+      flush();
+      nodes.push({
+        type: "link",
+        href: sanitizeUrl(url),
+        children: [{ type: "text", text: url }],
+      });
+      i += url.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const lines = source
+    .replace(/\r\n?/g, "\n")
+    .replace(/\t/g, "    ")
+    .split("\n");
+  return parseBlocks(lines);
+}
+
+const inlineText = (nodes: Inline[]): string =>
+  nodes
+    .map((node) =>
+      node.type === "break"
+        ? " "
+        : "children" in node
+          ? inlineText(node.children)
+          : node.text,
+    )
+    .join("");
+
+const blockText = (block: Block): string[] => {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+      return [inlineText(block.children)];
+    case "code":
+      return [block.text];
+    case "quote":
+      return block.children.flatMap(blockText);
+    case "list":
+      return block.items.flat().flatMap(blockText);
+    case "table":
+      return [...block.header, ...block.rows.flat()].map(inlineText);
+    case "rule":
+      return [];
+  }
+};
+
+// The description as plain text on one line, for order cards and previews.
+// Longer text is cut at a word boundary.
+export function markdownExcerpt(source: string, maxLength = 300) {
+  // Only the start can make it into the excerpt, long descriptions aren't
+  // parsed whole for every card
+  const text = parseMarkdown(source.slice(0, maxLength * 10))
+    .flatMap(blockText)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (text.length <= maxLength) return text;
+  let cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  // Unless the only space is near the start
+  if (lastSpace > maxLength / 2) cut = cut.slice(0, lastSpace);
+  return `${cut.trimEnd()}…`;
+}
@@ -0,0 +1,70 @@
+import type { Message, OfferEvent, Order, Review, User } from "../types";
+
+// Wording and links of notifications, shared by the in-app toasts and the
+// push messages sent by the mock backend
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+  // Opened when the notification is clicked, as a modal for chat links
+  url: string;
+  modal?: boolean;
+}
+
+const OFFER_EVENT_TITLES: Record<OfferEvent["event"], string> = {
+  created: "Nowa oferta",
+  countered: "Kontroferta",
+  accepted: "Oferta zaakceptowana",
+  rejected: "Oferta odrzucona",
+  withdrawn: "Oferta wycofana",
+};
+
+export const describeMessage = (
+  message: Message,
+  sender?: User,
+): NotificationContent => ({
+  title: sender ? `Nowa wiadomość od ${sender.username}` : "Nowa wiadomość",
+  body:
+    message.content ||
+    (message.attachments?.length
+      ? `📎 ${message.attachments.map((a) => a.name).join(", ")}`
+      : ""),
+  url: `/chat/${message.sender_id}`,
+  modal: true,
+});
+
+// `recipientId` is the user told about the event, the applicant follows the
+// offer among the sent ones and the order owner among the received ones
+export function describeOfferEvent(
+  { event, offer }: OfferEvent,
+  recipientId: number,
+  actor?: User,
+  order?: Order,
+): NotificationContent {
+  const name = actor?.username ?? "Użytkownik";
+  const orderName = order ? `„${order.order_name}”` : "zlecenie";
+  const price = offer.proposed_price ?? order?.price;
+  const body = {
+    created: `${name} proponuje ${price} zł za ${orderName}`,
+    countered: `${name} proponuje ${price} zł za ${orderName}`,
+    accepted: `${name} akceptuje ofertę na ${orderName}`,
+    rejected: `${name} odrzuca ofertę na ${orderName}`,
+    withdrawn: `${name} wycofuje ofertę na ${orderName}`,
+  }[event];
+
+  return {
+    title: OFFER_EVENT_TITLES[event],
+    body,
+    url: offer.user_id === recipientId ? "/offers/sent" : "/offers/received",
+  };
+}
+
+export const describeReview = (
+  review: Review,
+  reviewer?: User,
+): NotificationContent => ({
+  title: "Nowa opinia",
+  body: `${reviewer?.username ?? "Użytkownik"} ocenia Cię na ${review.rating}/5`,
+  url: `/users/${review.user_reviewed}`,
+  modal: true,
+});
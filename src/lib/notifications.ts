@@ -0,0 +1,191 @@
+import { api } from "./api";
+import {
+  chatConnection,
+  isChatMessage,
+  isSocketEvent,
+} from "./chatConnection";
+import {
+  describeMessage,
+  describeOfferEvent,
+  describeReview,
+  type NotificationContent,
+} from "./notificationText";
+import { showBrowserNotification } from "./push";
+import { orders, refreshOrder, reviewsByUser, users } from "./store";
+import type {
+  Message,
+  NotificationCategory,
+  OfferEvent,
+  ReviewEvent,
+} from "../types";
+
+// App-wide unread message counts and toasts, fed by the chat connection.
+// While the tab is hidden, events also show up as browser notifications when
+// push isn't set up (see src/lib/push.ts).
+// Started by AuthProvider for the logged-in user, read through
+// useNotifications().
+
+export interface Toast extends NotificationContent {
+  id: number;
+}
+
+export interface NotificationsState {
+  // Unread messages per conversation, keyed by the other user's id
+  unread: { [userId: number]: number };
+  toasts: Toast[];
+}
+
+const TOAST_DURATION_MS = 6000;
+const MAX_TOASTS = 4;
+
+let state: NotificationsState = { unread: {}, toasts: [] };
+let currentUserId: number | null = null;
+// The conversation open in the chat window, its messages are read right away
+let activeConversation: number | null = null;
+let nextToastId = 1;
+const listeners = new Set<() => void>();
+
+const setState = (changes: Partial<NotificationsState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+export const getNotifications = () => state;
+
+export function subscribeNotifications(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function dismissToast(id: number) {
+  setState({ toasts: state.toasts.filter((toast) => toast.id !== id) });
+}
+
+function showToast(toast: Omit<Toast, "id">) {
+  const id = nextToastId++;
+  setState({
+    toasts: [...state.toasts, { ...toast, id }].slice(-MAX_TOASTS),
+  });
+  setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+}
+
+export function markConversationRead(userId: number) {
+  const { [userId]: _, ...unread } = state.unread;
+  setState({ unread });
+  api.markConversationRead(userId).catch((error) => {
+    console.error("Error marking messages as read:", error);
+  });
+}
+
+export function setActiveConversation(userId: number | null) {
+  activeConversation = userId;
+  if (userId !== null && state.unread[userId]) markConversationRead(userId);
+}
+
+async function loadUnreadCounts() {
+  try {
+    const conversations = await api.getConversations();
+    setState({
+      unread: Object.fromEntries(
+        conversations
+          .filter((conversation) => conversation.unread_count > 0)
+          .map((conversation) => [
+            conversation.user_id,
+            conversation.unread_count,
+          ]),
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching unread messages:", error);
+  }
+}
+
+// Messages that came into the open conversation while the tab was hidden are
+// read once it's shown again
+function handleVisibilityChange() {
+  if (document.hidden || activeConversation === null) return;
+  if (state.unread[activeConversation]) {
+    markConversationRead(activeConversation);
+  }
+}
+
+// Shown as a toast, and as a browser notification while the tab is hidden
+function notify(category: NotificationCategory, content: NotificationContent) {
+  showToast(content);
+  if (document.hidden) showBrowserNotification(category, content);
+}
+
+async function handleMessage(message: Message) {
+  const senderId = message.sender_id;
+  if (message.receiver_id !== currentUserId || senderId === currentUserId) {
+    return;
+  }
+  if (senderId === activeConversation && !document.hidden) {
+    markConversationRead(senderId);
+    return;
+  }
+
+  setState({
+    unread: { ...state.unread, [senderId]: (state.unread[senderId] ?? 0) + 1 },
+  });
+  const sender = await users.read(senderId).catch(() => undefined);
+  notify("messages", describeMessage(message, sender));
+}
+
+async function handleOfferEvent(event: OfferEvent) {
+  const { offer, user_id } = event;
+  // Keeps open offer lists and order pages current
+  refreshOrder(offer.order_id).catch((error) => {
+    console.error("Error refreshing order:", error);
+  });
+
+  const [actor, order] = await Promise.all([
+    users.read(user_id).catch(() => undefined),
+    orders.read(offer.order_id).catch(() => undefined),
+  ]);
+  if (currentUserId === null) return;
+  notify("offers", describeOfferEvent(event, currentUserId, actor, order));
+}
+
+async function handleReviewEvent({ review }: ReviewEvent) {
+  reviewsByUser.invalidate(review.user_reviewed);
+  const reviewer = await users
+    .read(review.user_reviewing)
+    .catch(() => undefined);
+  notify("reviews", describeReview(review, reviewer));
+}
+
+// Starts listening for the given user, returns the function that stops it
+export function startNotifications(userId: number) {
+  currentUserId = userId;
+  loadUnreadCounts();
+
+  // Messages that arrived while disconnected only show up in the counts
+  let wasOpen = chatConnection.getState().status === "open";
+  const unsubscribeState = chatConnection.subscribeState(() => {
+    const isOpen = chatConnection.getState().status === "open";
+    if (isOpen && !wasOpen) loadUnreadCounts();
+    wasOpen = isOpen;
+  });
+  const unsubscribe = chatConnection.subscribe((data) => {
+    if (isChatMessage(data)) {
+      handleMessage(data);
+    } else if (isSocketEvent<OfferEvent>(data, "offer")) {
+      handleOfferEvent(data);
+    } else if (isSocketEvent<ReviewEvent>(data, "review")) {
+      handleReviewEvent(data);
+    }
+  });
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    unsubscribeState();
+    unsubscribe();
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+    currentUserId = null;
+    activeConversation = null;
+    setState({ unread: {}, toasts: [] });
+  };
+}
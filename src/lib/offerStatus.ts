@@ -0,0 +1,34 @@
+import type { Offer } from "../types";
+
+// Labels and badge classes for offer statuses, see .status-* in index.css
+
+export const OFFER_STATUS_CONFIG: Record<
+  string,
+  { label: string; className: string }
+> = {
+  pending: { label: "Oczekuje", className: "status-pending" },
+  countered: { label: "Kontroferta", className: "status-countered" },
+  accepted: { label: "Zaakceptowana", className: "status-accepted" },
+  rejected: { label: "Odrzucona", className: "status-rejected" },
+  withdrawn: { label: "Wycofana", className: "status-withdrawn" },
+};
+
+export function getOfferStatusConfig(status: string) {
+  return (
+    OFFER_STATUS_CONFIG[status] ?? { label: status, className: "status-pending" }
+  );
+}
+
+// Offers still under negotiation, the others are final
+export function isOfferNegotiable(offer: Offer) {
+  return offer.status === "pending" || offer.status === "countered";
+}
+
+// Who has to respond to a negotiable offer: the order owner after the
+// applicant's latest terms, the applicant after an owner's counter-offer
+export function getOfferTurn(offer: Offer): "owner" | "applicant" {
+  const lastRound = offer.history?.[offer.history.length - 1];
+  return lastRound && lastRound.user_id !== offer.user_id
+    ? "applicant"
+    : "owner";
+}
@@ -0,0 +1,106 @@
+import type { Order, OrderCategory } from "../types";
+
+// Categories and tags of orders, and how well an order fits the skills a
+// user listed on their profile. Shared by the UI and the mock backend.
+
+export const ORDER_CATEGORIES: { value: OrderCategory; label: string }[] = [
+  { value: "electronics", label: "Elektronika" },
+  { value: "programming", label: "Programowanie" },
+  { value: "3d_printing", label: "Druk 3D" },
+  { value: "repair", label: "Naprawy" },
+  { value: "design", label: "Projektowanie" },
+  { value: "other", label: "Inne" },
+];
+
+// Orders in each category, categories without any may be left out
+export type CategoryCounts = Partial<Record<OrderCategory, number>>;
+
+export const MAX_TAGS = 10;
+export const MAX_SKILLS = 20;
+const MAX_TAG_LENGTH = 30;
+
+export function isOrderCategory(value: unknown): value is OrderCategory {
+  return ORDER_CATEGORIES.some((category) => category.value === value);
+}
+
+export function getOrderCategory(order: Order): OrderCategory {
+  return order.category ?? "other";
+}
+
+export const getCategoryLabel = (category: OrderCategory) =>
+  ORDER_CATEGORIES.find((c) => c.value === category)?.label ?? category;
+
+export function countCategories(orders: Order[]): CategoryCounts {
+  const counts: CategoryCounts = {};
+  for (const order of orders) {
+    const category = getOrderCategory(order);
+    counts[category] = (counts[category] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// Lowercase, single-spaced and without a leading "#", so "#ESP32 " and
+// "esp32" are the same tag. Commas separate tags when typing them.
+export const normalizeTag = (tag: string) =>
+  tag
+    .replace(/^[\s#]+/, "")
+    .replace(/,/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH);
+
+// Normalized tags or skills without duplicates and empty ones, also used to
+// validate request bodies
+export function normalizeTags(tags: unknown, max = MAX_TAGS): string[] {
+  if (!Array.isArray(tags)) return [];
+  const normalized = tags
+    .filter((tag): tag is string => typeof tag === "string")
+    .map(normalizeTag)
+    .filter(Boolean);
+  return [...new Set(normalized)].slice(0, max);
+}
+
+// A skill naming one of the order's tags counts the most, then one naming
+// its category, then one mentioned in the name or description
+const TAG_WEIGHT = 3;
+const CATEGORY_WEIGHT = 2;
+const TEXT_WEIGHT = 1;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const mentions = (text: string, phrase: string) =>
+  new RegExp(
+    `(^|[^\\p{L}\\p{N}])${escapeRegExp(phrase)}($|[^\\p{L}\\p{N}])`,
+    "u",
+  ).test(text);
+
+// The normalized `skills` that apply to the order and their total weight,
+// 0 when none does
+export function matchSkills(order: Order, skills: string[]) {
+  const tags = order.tags ?? [];
+  const category = getOrderCategory(order);
+  const categoryNames =
+    category === "other"
+      ? []
+      : [category, getCategoryLabel(category).toLowerCase()];
+  const text = `${order.order_name} ${order.order_desc}`.toLowerCase();
+
+  let score = 0;
+  const matched: string[] = [];
+  for (const skill of skills) {
+    const weight = tags.includes(skill)
+      ? TAG_WEIGHT
+      : categoryNames.includes(skill)
+        ? CATEGORY_WEIGHT
+        : mentions(text, skill)
+          ? TEXT_WEIGHT
+          : 0;
+    if (weight > 0) {
+      score += weight;
+      matched.push(skill);
+    }
+  }
+  return { score, matched };
+}
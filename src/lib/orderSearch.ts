@@ -0,0 +1,227 @@
+import type { Order, OrderCategory, OrderStatus } from "../types";
+import {
+  getOrderCategory,
+  isOrderCategory,
+  matchSkills,
+} from "./orderCategories";
+import { BROWSABLE_ORDER_STATUSES, getOrderStatus } from "./orderStatus";
+
+// Order search criteria, shared by the API client (query parameters), the
+// BrowseOrders filter panel and the page URL.
+
+export type OrderSort = "newest" | "oldest" | "price_asc" | "price_desc";
+
+export const ORDER_SORTS: { value: OrderSort; label: string }[] = [
+  { value: "newest", label: "Najnowsze" },
+  { value: "oldest", label: "Najstarsze" },
+  { value: "price_asc", label: "Najtańsze" },
+  { value: "price_desc", label: "Najdroższe" },
+];
+
+export interface OrderSearch {
+  query?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Inclusive YYYY-MM-DD bounds for created_at
+  createdFrom?: string;
+  createdTo?: string;
+  hasImages?: boolean;
+  excludeUserId?: number;
+  statuses?: OrderStatus[];
+  category?: OrderCategory;
+  // Normalized skills, leaves out orders matching none of them and ranks
+  // the rest by how well they match, `sort` breaking ties
+  skills?: string[];
+  sort?: OrderSort;
+}
+
+// Form state of the filter panel, kept as strings so inputs can be empty
+export interface OrderFilters {
+  query: string;
+  minPrice: string;
+  maxPrice: string;
+  createdFrom: string;
+  createdTo: string;
+  hasImages: boolean;
+  excludeMine: boolean;
+  // Picked from the facets above the list, not in the panel
+  category: OrderCategory | "";
+  // Orders matching the skills of the current user
+  matchSkills: boolean;
+  sort: OrderSort;
+}
+
+export const DEFAULT_ORDER_FILTERS: OrderFilters = {
+  query: "",
+  minPrice: "",
+  maxPrice: "",
+  createdFrom: "",
+  createdTo: "",
+  hasImages: false,
+  excludeMine: false,
+  category: "",
+  matchSkills: false,
+  sort: "newest",
+};
+
+const isSort = (value: string | null): value is OrderSort =>
+  ORDER_SORTS.some((sort) => sort.value === value);
+
+const toNumber = (value: string) => {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// `skills` of the current user are used when filters.matchSkills is set
+export function toOrderSearch(
+  filters: OrderFilters,
+  currentUserId?: number,
+  skills: string[] = [],
+): OrderSearch {
+  return {
+    query: filters.query.trim() || undefined,
+    minPrice: toNumber(filters.minPrice),
+    maxPrice: toNumber(filters.maxPrice),
+    createdFrom: filters.createdFrom || undefined,
+    createdTo: filters.createdTo || undefined,
+    hasImages: filters.hasImages || undefined,
+    excludeUserId: filters.excludeMine ? currentUserId : undefined,
+    statuses: BROWSABLE_ORDER_STATUSES,
+    category: filters.category || undefined,
+    skills: filters.matchSkills ? skills : undefined,
+    sort: filters.sort,
+  };
+}
+
+// Of the filter panel
+export function countActiveFilters(filters: OrderFilters) {
+  return [
+    filters.minPrice,
+    filters.maxPrice,
+    filters.createdFrom,
+    filters.createdTo,
+    filters.hasImages,
+    filters.excludeMine,
+  ].filter(Boolean).length;
+}
+
+// Backend query parameters for a search, see /orders/search
+export function orderSearchParams(search: OrderSearch) {
+  const params = new URLSearchParams({ query: search.query ?? "" });
+  if (search.minPrice !== undefined) {
+    params.set("min_price", String(search.minPrice));
+  }
+  if (search.maxPrice !== undefined) {
+    params.set("max_price", String(search.maxPrice));
+  }
+  if (search.createdFrom) params.set("created_from", search.createdFrom);
+  if (search.createdTo) params.set("created_to", search.createdTo);
+  if (search.hasImages) params.set("has_images", "true");
+  if (search.excludeUserId !== undefined) {
+    params.set("exclude_user", String(search.excludeUserId));
+  }
+  if (search.statuses) params.set("status", search.statuses.join(","));
+  if (search.category) params.set("category", search.category);
+  if (search.skills) params.set("skills", search.skills.join(","));
+  if (search.sort) params.set("sort", search.sort);
+  return params;
+}
+
+export function matchesOrderSearch(order: Order, search: OrderSearch) {
+  const query = search.query?.toLowerCase();
+  const createdOn = order.created_at.slice(0, 10);
+  return (
+    (!query ||
+      order.order_name.toLowerCase().includes(query) ||
+      order.order_desc.toLowerCase().includes(query) ||
+      order.tags?.some((tag) => tag.includes(query))) &&
+    (search.minPrice === undefined || order.price >= search.minPrice) &&
+    (search.maxPrice === undefined || order.price <= search.maxPrice) &&
+    (!search.createdFrom || createdOn >= search.createdFrom) &&
+    (!search.createdTo || createdOn <= search.createdTo) &&
+    (!search.hasImages || order.image_urls.length > 0) &&
+    (search.excludeUserId === undefined ||
+      order.user_id !== search.excludeUserId) &&
+    (!search.statuses || search.statuses.includes(getOrderStatus(order))) &&
+    (!search.category || getOrderCategory(order) === search.category) &&
+    (!search.skills || matchSkills(order, search.skills).score > 0)
+  );
+}
+
+export function compareOrders(sort: OrderSort = "newest") {
+  return (a: Order, b: Order) => {
+    switch (sort) {
+      case "oldest":
+        return a.created_at.localeCompare(b.created_at);
+      case "price_asc":
+        return a.price - b.price;
+      case "price_desc":
+        return b.price - a.price;
+      default:
+        return b.created_at.localeCompare(a.created_at);
+    }
+  };
+}
+
+// Filters and sorts a list on the client. A no-op for results the backend
+// already filtered, and a fallback for backends that ignore the parameters.
+export function applyOrderSearch(orders: Order[], search: OrderSearch) {
+  const matching = orders.filter((order) => matchesOrderSearch(order, search));
+  const compare = compareOrders(search.sort);
+  const skills = search.skills;
+  if (!skills) return matching.sort(compare);
+
+  const scores = new Map(
+    matching.map((order) => [order, matchSkills(order, skills).score]),
+  );
+  return matching.sort(
+    (a, b) => scores.get(b)! - scores.get(a)! || compare(a, b),
+  );
+}
+
+// Short URL keys so filtered views can be shared, e.g. ?q=esp&max=500&sort=price_asc
+const URL_KEYS = {
+  query: "q",
+  minPrice: "min",
+  maxPrice: "max",
+  createdFrom: "from",
+  createdTo: "to",
+  hasImages: "images",
+  excludeMine: "hide_mine",
+  category: "category",
+  matchSkills: "for_me",
+  sort: "sort",
+} as const;
+
+export function filtersFromUrl(search: string): OrderFilters {
+  const params = new URLSearchParams(search);
+  const sort = params.get(URL_KEYS.sort);
+  const category = params.get(URL_KEYS.category);
+  return {
+    query: params.get(URL_KEYS.query) ?? "",
+    minPrice: params.get(URL_KEYS.minPrice) ?? "",
+    maxPrice: params.get(URL_KEYS.maxPrice) ?? "",
+    createdFrom: params.get(URL_KEYS.createdFrom) ?? "",
+    createdTo: params.get(URL_KEYS.createdTo) ?? "",
+    hasImages: params.get(URL_KEYS.hasImages) === "1",
+    excludeMine: params.get(URL_KEYS.excludeMine) === "1",
+    category: isOrderCategory(category) ? category : "",
+    matchSkills: params.get(URL_KEYS.matchSkills) === "1",
+    sort: isSort(sort) ? sort : DEFAULT_ORDER_FILTERS.sort,
+  };
+}
+
+// Returns `search` with the filter keys replaced, other parameters are kept
+export function filtersToUrl(filters: OrderFilters, search = ""): string {
+  const params = new URLSearchParams(search);
+  for (const key of Object.keys(URL_KEYS) as (keyof OrderFilters)[]) {
+    const value = filters[key];
+    if (value === DEFAULT_ORDER_FILTERS[key] || value === "") {
+      params.delete(URL_KEYS[key]);
+    } else {
+      params.set(URL_KEYS[key], value === true ? "1" : String(value));
+    }
+  }
+  const result = params.toString();
+  return result ? `?${result}` : "";
+}
@@ -0,0 +1,37 @@
+import type { Order, OrderStatus } from "../types";
+
+// Order lifecycle, shared by the UI and the mock backend
+
+export const ORDER_STATUS_CONFIG: Record<
+  OrderStatus,
+  { label: string; className: string }
+> = {
+  open: { label: "Otwarte", className: "status-open" },
+  in_progress: { label: "W realizacji", className: "status-in-progress" },
+  completed: { label: "Zakończone", className: "status-completed" },
+  cancelled: { label: "Anulowane", className: "status-cancelled" },
+};
+
+// Statuses the owner can move an order to from each status. Moving to
+// in_progress happens only by accepting an offer.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  open: ["cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+// Orders that still show up in BrowseOrders
+export const BROWSABLE_ORDER_STATUSES: OrderStatus[] = ["open", "in_progress"];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && value in ORDER_STATUS_CONFIG;
+}
+
+export function getOrderStatus(order: Order): OrderStatus {
+  return order.status ?? "open";
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus) {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,226 @@
+import { api } from "./api";
+import type { NotificationContent } from "./notificationText";
+import { navigate, navigateModal } from "./router";
+import type { NotificationCategory, NotificationPreferences } from "../types";
+
+// Browser notifications: the service worker (src/sw.ts), its Web Push
+// subscription and the notification preferences the backend keeps per user.
+//
+// Notifications are opt-in per browser. Once enabled, the backend pushes
+// events the user wants to hear about, so they arrive with the tab in the
+// background or closed. Without a push subscription (no PushManager, push
+// service unreachable) they are still shown while a hidden tab is open, see
+// showBrowserNotification().
+
+export interface PushState {
+  // Service workers and the Notification API are available
+  isSupported: boolean;
+  permission: NotificationPermission;
+  // The user opted in on this browser and granted the permission
+  isEnabled: boolean;
+  // The backend has a push subscription of this browser for the user
+  isSubscribed: boolean;
+  // null until loaded
+  preferences: NotificationPreferences | null;
+}
+
+const SERVICE_WORKER_URL = "/sw.js";
+// Opt-in of this browser, cleared on logout so the next user starts over
+const ENABLED_KEY = "notificationsEnabled";
+
+const isSupported =
+  typeof window !== "undefined" &&
+  "serviceWorker" in navigator &&
+  "Notification" in window;
+
+const currentPermission = (): NotificationPermission =>
+  isSupported ? Notification.permission : "denied";
+
+let state: PushState = {
+  isSupported,
+  permission: currentPermission(),
+  isEnabled: false,
+  isSubscribed: false,
+  preferences: null,
+};
+// Endpoint registered with the backend, removed again on disable
+let subscriptionEndpoint: string | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (changes: Partial<PushState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+export const getPushState = () => state;
+
+export function subscribePush(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const getRegistration = () =>
+  isSupported
+    ? navigator.serviceWorker.getRegistration()
+    : Promise.resolve(undefined);
+
+// Registers the service worker once at startup. Clicked notifications are
+// opened by it in an existing tab through a "navigate" message.
+export function registerServiceWorker() {
+  if (!isSupported) return;
+
+  navigator.serviceWorker.addEventListener("message", (event) => {
+    const data = event.data as { type?: string; url?: string; modal?: boolean };
+    if (data?.type !== "navigate" || !data.url) return;
+    if (data.modal) {
+      navigateModal(data.url);
+    } else {
+      navigate(data.url);
+    }
+  });
+  navigator.serviceWorker
+    .register(SERVICE_WORKER_URL)
+    .catch((error) =>
+      console.error("Error registering service worker:", error),
+    );
+}
+
+// Subscribes this browser to push, replacing a subscription made for another
+// key, and registers it with the backend
+async function subscribe() {
+  const registration = await getRegistration();
+  if (!registration || !("pushManager" in registration)) return;
+
+  const key = await api.getPushKey();
+  let subscription = await registration.pushManager.getSubscription();
+  const subscribedKey = subscription?.options.applicationServerKey;
+  if (subscription && (!subscribedKey || toBase64Url(subscribedKey) !== key)) {
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+  subscription ??= await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: key,
+  });
+
+  await api.savePushSubscription(subscription.toJSON());
+  subscriptionEndpoint = subscription.endpoint;
+  setState({ isSubscribed: true });
+}
+
+// Loads the preferences of the logged-in user and registers the push
+// subscription again when notifications are enabled on this browser
+export async function loadPushState() {
+  const permission = currentPermission();
+  const isEnabled =
+    permission === "granted" && localStorage.getItem(ENABLED_KEY) === "1";
+  setState({ permission, isEnabled });
+
+  try {
+    setState({ preferences: await api.getNotificationPreferences() });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+  }
+  if (isEnabled) {
+    await subscribe().catch((error) =>
+      console.error("Error subscribing to push:", error),
+    );
+  }
+}
+
+// Asks for the permission, resolves to whether notifications were enabled
+export async function enablePush() {
+  if (!isSupported) return false;
+
+  const permission = await Notification.requestPermission();
+  setState({ permission });
+  if (permission !== "granted") return false;
+
+  localStorage.setItem(ENABLED_KEY, "1");
+  setState({ isEnabled: true });
+  try {
+    await subscribe();
+  } catch (error) {
+    // Hidden tabs still get notifications
+    console.error("Error subscribing to push:", error);
+  }
+  return true;
+}
+
+export function disablePush() {
+  localStorage.removeItem(ENABLED_KEY);
+  const endpoint = subscriptionEndpoint;
+  subscriptionEndpoint = null;
+  setState({ isEnabled: false, isSubscribed: false });
+
+  // Started before anything async, logout drops the token right after
+  if (endpoint) {
+    api.deletePushSubscription(endpoint).catch((error) => {
+      console.error("Error removing push subscription:", error);
+    });
+  }
+  getRegistration()
+    .then((registration) => registration?.pushManager?.getSubscription())
+    .then((subscription) => subscription?.unsubscribe())
+    .catch((error) => console.error("Error unsubscribing from push:", error));
+}
+
+// Called on logout
+export function resetPush() {
+  disablePush();
+  setState({ preferences: null });
+}
+
+export async function updatePreferences(
+  changes: Partial<NotificationPreferences>,
+) {
+  const previous = state.preferences;
+  if (!previous) return;
+
+  setState({ preferences: { ...previous, ...changes } });
+  try {
+    setState({
+      preferences: await api.updateNotificationPreferences({
+        ...previous,
+        ...changes,
+      }),
+    });
+  } catch (error) {
+    setState({ preferences: previous });
+    throw error;
+  }
+}
+
+// Shown through the service worker so clicks are handled the same way as
+// for pushed notifications. Does nothing when push delivers the event.
+export async function showBrowserNotification(
+  category: NotificationCategory,
+  { title, body, url, modal }: NotificationContent,
+) {
+  if (
+    !state.isEnabled ||
+    state.isSubscribed ||
+    !state.preferences?.[category] ||
+    currentPermission() !== "granted"
+  ) {
+    return;
+  }
+
+  try {
+    const registration = await getRegistration();
+    await registration?.showNotification(title, {
+      body,
+      data: { url, modal },
+    });
+  } catch (error) {
+    console.error("Error showing notification:", error);
+  }
+}
@@ -0,0 +1,309 @@
+// Reconnecting WebSocket with heartbeats and an outbox.
+//
+// - Reconnects with exponential backoff and jitter until close() is called.
+// - Sends an application level {"type":"ping"} every `heartbeatMs`. Once the
+//   server has answered one with {"type":"pong"}, a connection that stays
+//   silent for longer than `heartbeatMs + heartbeatTimeoutMs` is considered
+//   dead and replaced. Servers that never answer aren't held to it.
+// - Outgoing messages go through an outbox. An entry stays there until an
+//   incoming message acknowledges it (see `isAck`). It is written again after
+//   a reconnect or when the ack doesn't arrive in time, and marked failed
+//   after `maxAttempts` writes. Failed entries can be retried or discarded.
+
+// "idle" before connect() and after close()
+export type ConnectionStatus = "idle" | "connecting" | "open" | "reconnecting";
+
+export interface OutboxEntry<T> {
+  id: string;
+  payload: T;
+  status: "pending" | "failed";
+  // Times the payload was written to a socket
+  attempts: number;
+  createdAt: string;
+}
+
+export interface ConnectionState<T> {
+  status: ConnectionStatus;
+  outbox: OutboxEntry<T>[];
+}
+
+export interface RealtimeOptions<T> {
+  // Evaluated on every connect, so a new token is picked up
+  url: () => string;
+  // Whether an incoming message acknowledges an outbox entry
+  isAck: (data: unknown, entry: OutboxEntry<T>) => boolean;
+  heartbeatMs?: number;
+  heartbeatTimeoutMs?: number;
+  ackTimeoutMs?: number;
+  maxAttempts?: number;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+type Timer = ReturnType<typeof setTimeout>;
+
+const isPong = (data: unknown) =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as { type?: unknown }).type === "pong";
+
+// Exponential backoff with "equal jitter": half of the delay is fixed, the
+// other half random, so clients dropped at the same moment don't all
+// reconnect in lockstep
+export function backoffDelay(attempt: number, minMs: number, maxMs: number) {
+  const ceiling = Math.min(maxMs, minMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+export type RealtimeConnection<T> = ReturnType<
+  typeof createRealtimeConnection<T>
+>;
+
+export function createRealtimeConnection<T>({
+  url,
+  isAck,
+  heartbeatMs = 25_000,
+  heartbeatTimeoutMs = 10_000,
+  ackTimeoutMs = 10_000,
+  maxAttempts = 3,
+  minBackoffMs = 1_000,
+  maxBackoffMs = 30_000,
+}: RealtimeOptions<T>) {
+  let ws: WebSocket | null = null;
+  let state: ConnectionState<T> = { status: "idle", outbox: [] };
+  let reconnectAttempt = 0;
+  let reconnectTimer: Timer | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let lastSeen = 0;
+  let serverAnswersPings = false;
+  // Entries written to the current socket and waiting for their ack
+  const ackTimers = new Map<string, Timer>();
+  const messageListeners = new Set<(data: unknown) => void>();
+  const stateListeners = new Set<() => void>();
+
+  const setState = (changes: Partial<ConnectionState<T>>) => {
+    state = { ...state, ...changes };
+    stateListeners.forEach((listener) => listener());
+  };
+
+  const updateEntry = (id: string, changes: Partial<OutboxEntry<T>>) =>
+    setState({
+      outbox: state.outbox.map((entry) =>
+        entry.id === id ? { ...entry, ...changes } : entry,
+      ),
+    });
+
+  const findEntry = (id: string) =>
+    state.outbox.find((entry) => entry.id === id);
+
+  const clearAckTimer = (id: string) => {
+    clearTimeout(ackTimers.get(id));
+    ackTimers.delete(id);
+  };
+
+  const write = (entry: OutboxEntry<T>) => {
+    if (ws?.readyState !== WebSocket.OPEN) return;
+
+    ws.send(JSON.stringify(entry.payload));
+    const attempts = entry.attempts + 1;
+    updateEntry(entry.id, { attempts });
+    clearAckTimer(entry.id);
+    ackTimers.set(
+      entry.id,
+      setTimeout(() => {
+        ackTimers.delete(entry.id);
+        const current = findEntry(entry.id);
+        if (!current) return;
+        if (attempts >= maxAttempts) {
+          updateEntry(entry.id, { status: "failed" });
+        } else {
+          write(current);
+        }
+      }, ackTimeoutMs),
+    );
+  };
+
+  // Writes the pending entries that aren't waiting for an ack already
+  const flush = () => {
+    for (const entry of state.outbox) {
+      if (entry.status !== "pending" || ackTimers.has(entry.id)) continue;
+      if (entry.attempts >= maxAttempts) {
+        updateEntry(entry.id, { status: "failed" });
+      } else {
+        write(entry);
+      }
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    lastSeen = Date.now();
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch (error) {
+      console.error("Error parsing message:", error);
+      return;
+    }
+    if (isPong(data)) {
+      serverAnswersPings = true;
+      return;
+    }
+
+    // A late ack still counts for an entry that was marked failed
+    const acked = state.outbox.find((entry) => isAck(data, entry));
+    if (acked) {
+      clearAckTimer(acked.id);
+      setState({ outbox: state.outbox.filter((entry) => entry !== acked) });
+    }
+    messageListeners.forEach((listener) => listener(data));
+  };
+
+  // Forgets the current socket without running its handlers
+  const drop = () => {
+    if (ws) {
+      ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+      if (
+        ws.readyState === WebSocket.OPEN ||
+        ws.readyState === WebSocket.CONNECTING
+      ) {
+        ws.close();
+      }
+      ws = null;
+    }
+    clearInterval(heartbeatTimer);
+    // Entries waiting for an ack are written again after reconnecting
+    ackTimers.forEach((timer) => clearTimeout(timer));
+    ackTimers.clear();
+  };
+
+  const scheduleReconnect = () => {
+    const delay = backoffDelay(reconnectAttempt++, minBackoffMs, maxBackoffMs);
+    setState({ status: "reconnecting" });
+    reconnectTimer = setTimeout(open, delay);
+  };
+
+  const startHeartbeat = () => {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = setInterval(() => {
+      if (
+        serverAnswersPings &&
+        Date.now() - lastSeen > heartbeatMs + heartbeatTimeoutMs
+      ) {
+        console.warn("WebSocket heartbeat timed out, reconnecting");
+        drop();
+        scheduleReconnect();
+        return;
+      }
+      ws?.send(JSON.stringify({ type: "ping" }));
+    }, heartbeatMs);
+  };
+
+  const open = () => {
+    clearTimeout(reconnectTimer);
+    setState({
+      status: reconnectAttempt === 0 ? "connecting" : "reconnecting",
+    });
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url());
+    } catch (error) {
+      console.error("Failed to connect WebSocket:", error);
+      scheduleReconnect();
+      return;
+    }
+    ws = socket;
+
+    socket.onopen = () => {
+      reconnectAttempt = 0;
+      lastSeen = Date.now();
+      setState({ status: "open" });
+      startHeartbeat();
+      flush();
+    };
+    socket.onmessage = handleMessage;
+    socket.onclose = () => {
+      drop();
+      scheduleReconnect();
+    };
+    // Always followed by onclose
+    socket.onerror = (error) => {
+      console.error("WebSocket error:", error);
+    };
+  };
+
+  // Back online, don't wait out the backoff
+  const handleOnline = () => {
+    if (state.status === "reconnecting" && !ws) {
+      reconnectAttempt = 0;
+      open();
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribeState: (listener: () => void) => {
+      stateListeners.add(listener);
+      return () => {
+        stateListeners.delete(listener);
+      };
+    },
+
+    // Incoming messages, except heartbeats
+    subscribe: (listener: (data: unknown) => void) => {
+      messageListeners.add(listener);
+      return () => {
+        messageListeners.delete(listener);
+      };
+    },
+
+    // Does nothing when already connected or connecting
+    connect: () => {
+      if (state.status !== "idle") return;
+      window.addEventListener("online", handleOnline);
+      reconnectAttempt = 0;
+      open();
+    },
+
+    // Closes the socket for good and drops the outbox, e.g. on logout
+    close: () => {
+      window.removeEventListener("online", handleOnline);
+      clearTimeout(reconnectTimer);
+      drop();
+      reconnectAttempt = 0;
+      serverAnswersPings = false;
+      setState({ status: "idle", outbox: [] });
+    },
+
+    // Queues a message, it's written right away when the socket is open
+    send: (id: string, payload: T) => {
+      const entry: OutboxEntry<T> = {
+        id,
+        payload,
+        status: "pending",
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      };
+      setState({ outbox: [...state.outbox, entry] });
+      write(entry);
+    },
+
+    // Writes straight to the socket and is dropped when it isn't open. For
+    // state the next update replaces anyway, like typing indicators.
+    emit: (data: unknown) => {
+      if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(data));
+    },
+
+    retry: (id: string) => {
+      updateEntry(id, { status: "pending", attempts: 0 });
+      const entry = findEntry(id);
+      if (entry) write(entry);
+    },
+
+    discard: (id: string) => {
+      clearAckTimer(id);
+      setState({ outbox: state.outbox.filter((entry) => entry.id !== id) });
+    },
+  };
+}
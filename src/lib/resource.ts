@@ -0,0 +1,243 @@
+// Client-side cache primitives behind src/lib/store.ts.
+//
+// An entity resource keeps one record per id (users, orders, ...). A list
+// resource keeps the ids returned by a list endpoint and stores the records
+// themselves in an entity resource, so every list and every component sees
+// the same copy of a record.
+//
+// Reads are stale-while-revalidate: a cached value is returned right away
+// and, once older than `staleMs`, refetched in the background. Concurrent
+// fetches of the same key share one request.
+
+export interface Entry<T> {
+  value: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  // 0 for values that were invalidated
+  updatedAt: number;
+}
+
+type Listener = () => void;
+
+const EMPTY_ENTRY: Entry<never> = {
+  value: undefined,
+  error: undefined,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+const DEFAULT_STALE_MS = 30_000;
+
+// Counter bumped on every change of a whole resource, for views that combine
+// many of its keys
+function createVersion() {
+  let version = 0;
+  const listeners = new Set<Listener>();
+  return {
+    bump: () => {
+      version++;
+      listeners.forEach((listener) => listener());
+    },
+    getVersion: () => version,
+    subscribeAll: (listener: Listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Keyed entry store with per-key subscriptions, shared by both resource kinds
+function createEntryStore<K, T>(
+  fetcher: ((key: K) => Promise<T>) | undefined,
+  staleMs: number,
+  onChange: () => void,
+) {
+  const entries = new Map<K, Entry<T>>();
+  const inFlight = new Map<K, Promise<T>>();
+  const listeners = new Map<K, Set<Listener>>();
+  // Bumped by clear() so responses to earlier requests are dropped
+  let generation = 0;
+
+  const get = (key: K): Entry<T> => entries.get(key) ?? EMPTY_ENTRY;
+
+  const update = (key: K, changes: Partial<Entry<T>>) => {
+    entries.set(key, { ...get(key), ...changes });
+    listeners.get(key)?.forEach((listener) => listener());
+    onChange();
+  };
+
+  const isStale = (key: K) => {
+    const entry = get(key);
+    return (
+      entry.value === undefined || Date.now() - entry.updatedAt > staleMs
+    );
+  };
+
+  const fetch = (key: K): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+    if (!fetcher) {
+      return Promise.reject(new Error(`No fetcher for ${String(key)}`));
+    }
+
+    const started = generation;
+    const promise = fetcher(key).finally(() => {
+      if (inFlight.get(key) === promise) inFlight.delete(key);
+    });
+    inFlight.set(key, promise);
+    update(key, { isFetching: true });
+    promise.then(
+      (value) => {
+        if (generation !== started) return;
+        update(key, {
+          value,
+          error: undefined,
+          isFetching: false,
+          updatedAt: Date.now(),
+        });
+      },
+      (error) => {
+        if (generation !== started) return;
+        update(key, { error, isFetching: false });
+      },
+    );
+    return promise;
+  };
+
+  const revalidate = (key: K) => {
+    if (isStale(key) && !inFlight.has(key)) {
+      // The error is kept in the entry as well
+      fetch(key).catch((error) =>
+        console.error(`Error fetching ${String(key)}:`, error),
+      );
+    }
+  };
+
+  return {
+    get,
+    isStale,
+    fetch,
+    revalidate,
+
+    // Cached value right away, refreshed in the background when stale
+    read: (key: K): Promise<T> => {
+      const { value } = get(key);
+      if (value === undefined) return fetch(key);
+      revalidate(key);
+      return Promise.resolve(value);
+    },
+
+    set: (key: K, value: T) =>
+      update(key, { value, error: undefined, updatedAt: Date.now() }),
+
+    // Marks entries stale; the ones somebody is watching refetch right away
+    invalidate: (match: K | ((key: K) => boolean)) => {
+      const keys =
+        typeof match === "function"
+          ? [...entries.keys()].filter(match as (key: K) => boolean)
+          : [match];
+      for (const key of keys) {
+        if (!entries.has(key)) continue;
+        update(key, { updatedAt: 0 });
+        if (listeners.get(key)?.size) revalidate(key);
+      }
+    },
+
+    remove: (key: K) => {
+      entries.delete(key);
+      listeners.get(key)?.forEach((listener) => listener());
+      onChange();
+    },
+
+    clear: () => {
+      generation++;
+      entries.clear();
+      inFlight.clear();
+      listeners.forEach((set) => set.forEach((listener) => listener()));
+      onChange();
+    },
+
+    subscribe: (key: K, listener: Listener) => {
+      let set = listeners.get(key);
+      if (!set) listeners.set(key, (set = new Set()));
+      set.add(listener);
+      return () => {
+        set.delete(listener);
+      };
+    },
+  };
+}
+
+export type EntityResource<T> = ReturnType<typeof createEntityResource<T>>;
+
+export function createEntityResource<T>({
+  getId,
+  fetch,
+  staleMs = DEFAULT_STALE_MS,
+}: {
+  getId: (value: T) => number;
+  // Omitted for records that only arrive through lists
+  fetch?: (id: number) => Promise<T>;
+  staleMs?: number;
+}) {
+  // Lets lists notice updated records
+  const { bump, getVersion, subscribeAll } = createVersion();
+  const store = createEntryStore<number, T>(fetch, staleMs, bump);
+
+  return {
+    ...store,
+    getId,
+    peek: (id: number) => store.get(id).value,
+    setMany: (values: T[]) => {
+      for (const value of values) store.set(getId(value), value);
+    },
+    getVersion,
+    subscribeAll,
+  };
+}
+
+export type ListResource<K, T> = ReturnType<typeof createListResource<K, T>>;
+
+export function createListResource<K, T>({
+  entity,
+  fetch,
+  staleMs = DEFAULT_STALE_MS,
+}: {
+  entity: EntityResource<T>;
+  fetch: (key: K) => Promise<T[]>;
+  staleMs?: number;
+}) {
+  const { bump, getVersion, subscribeAll } = createVersion();
+  const store = createEntryStore<K, number[]>(
+    async (key) => {
+      const values = await fetch(key);
+      entity.setMany(values);
+      return values.map(entity.getId);
+    },
+    staleMs,
+    bump,
+  );
+
+  // Resolves ids to the current records, dropping removed ones
+  const resolve = (ids: number[] | undefined) =>
+    ids
+      ?.map((id) => entity.peek(id))
+      .filter((value): value is T => value !== undefined);
+
+  return {
+    ...store,
+    entity,
+    resolve,
+    getVersion,
+    subscribeAll,
+    peek: (key: K) => resolve(store.get(key).value),
+    read: async (key: K) => resolve(await store.read(key)) ?? [],
+    // Stores a list fetched some other way, e.g. through a batch endpoint
+    setList: (key: K, values: T[]) => {
+      entity.setMany(values);
+      store.set(key, values.map(entity.getId));
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { matchPath } from "./router";
+
+describe("matchPath", () => {
+  test("matches static paths", () => {
+    expect(matchPath("/orders", "/orders")).toEqual({});
+    expect(matchPath("/", "/")).toEqual({});
+    expect(matchPath("/orders", "/offers")).toBeNull();
+  });
+
+  test("ignores leading, trailing and doubled slashes", () => {
+    expect(matchPath("/orders/mine", "orders//mine/")).toEqual({});
+  });
+
+  test("returns the params", () => {
+    const params = matchPath("/users/:id/offers/:offerId", "/users/7/offers/3");
+    expect(params).toEqual({ id: "7", offerId: "3" });
+  });
+
+  test("needs as many segments as the pattern", () => {
+    expect(matchPath("/orders/:id", "/orders")).toBeNull();
+    expect(matchPath("/orders/:id", "/orders/1/edit")).toBeNull();
+  });
+
+  test("decodes params", () => {
+    expect(matchPath("/tags/:tag", "/tags/druk%203d%2Fpetg")).toEqual({
+      tag: "druk 3d/petg",
+    });
+  });
+
+  test("doesn't match malformed escapes", () => {
+    expect(matchPath("/orders/:id", "/orders/%E0%A4%A")).toBeNull();
+    expect(matchPath("/orders/:id", "/orders/%")).toBeNull();
+  });
+});
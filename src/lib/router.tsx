@@ -0,0 +1,142 @@
+import React, { useSyncExternalStore } from "react";
+
+// Minimal History API router. The Bun server and the Vercel config both
+// serve index.html for unknown paths, so every route can be deep-linked.
+
+export interface RouteState {
+  // Location rendered behind a modal route such as /users/:id
+  background?: string;
+}
+
+export interface Location {
+  pathname: string;
+  search: string;
+  state: RouteState | null;
+}
+
+const NAVIGATE_EVENT = "app:navigate";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+// useSyncExternalStore needs a stable snapshot, so the location is cached
+// until the URL or history state actually changes
+let cachedLocation: Location | null = null;
+
+function getLocation(): Location {
+  const { pathname, search } = window.location;
+  const state = (window.history.state as RouteState | null) ?? null;
+  if (
+    !cachedLocation ||
+    cachedLocation.pathname !== pathname ||
+    cachedLocation.search !== search ||
+    cachedLocation.state !== state
+  ) {
+    cachedLocation = { pathname, search, state };
+  }
+  return cachedLocation;
+}
+
+export function useLocation(): Location {
+  return useSyncExternalStore(subscribe, getLocation);
+}
+
+export function navigate(
+  to: string,
+  {
+    replace = false,
+    state = null,
+  }: { replace?: boolean; state?: RouteState | null } = {},
+) {
+  if (replace) {
+    window.history.replaceState(state, "", to);
+  } else {
+    window.history.pushState(state, "", to);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+// Opens a modal route on top of the current page
+export function navigateModal(to: string) {
+  const current = getLocation();
+  navigate(to, {
+    state: {
+      background:
+        current.state?.background ?? `${current.pathname}${current.search}`,
+    },
+  });
+}
+
+// Closes a modal route: back to the page it was opened from if that is the
+// previous history entry, otherwise replace it with `fallback`
+export function closeModal(fallback: string) {
+  const background = getLocation().state?.background;
+  if (background) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+}
+
+// Matches "/orders/:id" style patterns, returns the params or null
+export function matchPath(
+  pattern: string,
+  pathname: string,
+): Record<string, string> | null {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = pathname.split("/").filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const patternPart = patternParts[i]!;
+    const pathPart = pathParts[i]!;
+    if (patternPart.startsWith(":")) {
+      // A malformed escape like "/orders/%E0" matches nothing
+      try {
+        params[patternPart.slice(1)] = decodeURIComponent(pathPart);
+      } catch {
+        return null;
+      }
+    } else if (patternPart !== pathPart) {
+      return null;
+    }
+  }
+  return params;
+}
+
+type LinkProps = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, "href"> & {
+  to: string;
+  modal?: boolean;
+};
+
+export function Link({ to, modal = false, onClick, ...props }: LinkProps) {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    // Let the browser handle new-tab and other modified clicks
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey
+    ) {
+      return;
+    }
+    e.preventDefault();
+    if (modal) {
+      navigateModal(to);
+    } else {
+      navigate(to);
+    }
+  };
+
+  return <a href={to} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,169 @@
+import {
+  api,
+  type NewOffer,
+  type NewOrder,
+  type NewReview,
+  type OfferTerms,
+  type OrderUpdate,
+} from "./api";
+import { createBatchLoader } from "./batchLoader";
+import { createEntityResource, createListResource } from "./resource";
+import type { Offer, Order, OrderStatus, Review, User } from "../types";
+
+// App-wide cache of backend records. Components read through these resources
+// (see src/hooks/useResource.ts) and mutate through the functions below, which
+// keep the cached copies and the lists containing them up to date.
+
+const userBatches = createBatchLoader<User>(
+  (ids) => api.getUsers(ids),
+  (user) => user.user_id,
+);
+
+const orderBatches = createBatchLoader<Order>(
+  (ids) => api.getOrders(ids),
+  (order) => order.order_id,
+);
+
+export const users = createEntityResource<User>({
+  getId: (user) => user.user_id,
+  fetch: userBatches.load,
+  // Profiles rarely change, no need to refetch them on every visit
+  staleMs: 5 * 60_000,
+});
+
+export const orders = createEntityResource<Order>({
+  getId: (order) => order.order_id,
+  fetch: orderBatches.load,
+});
+
+export const offers = createEntityResource<Offer>({
+  getId: (offer) => offer.offer_id,
+});
+
+export const reviews = createEntityResource<Review>({
+  getId: (review) => review.review_id,
+});
+
+// Keyed by the owner's user id
+export const ordersByUser = createListResource<number, Order>({
+  entity: orders,
+  fetch: (userId) => api.getUserOrders(userId),
+});
+
+// Keyed by order id
+export const offersByOrder = createListResource<number, Offer>({
+  entity: offers,
+  fetch: (orderId) => api.getOrderOffers(orderId),
+});
+
+// Offers sent by a user, keyed by their id
+export const offersByUser = createListResource<number, Offer>({
+  entity: offers,
+  fetch: (userId) => api.getUserOffers(userId),
+});
+
+// Reviews received by a user, keyed by their id
+export const reviewsByUser = createListResource<number, Review>({
+  entity: reviews,
+  fetch: (userId) => api.getReviewsFor(userId),
+});
+
+// Fills offersByOrder for many orders with one batch request. Orders without
+// offers get an empty list, so they aren't fetched one by one later.
+export async function loadOffersForOrders(orderIds: number[]) {
+  const loaded = await api.getOffersForOrders(orderIds);
+  for (const orderId of orderIds) {
+    offersByOrder.setList(
+      orderId,
+      loaded.filter((offer) => offer.order_id === orderId),
+    );
+  }
+  return loaded;
+}
+
+// Refetches an order together with its offers, e.g. after an offer changed
+// the order's status
+export async function refreshOrder(orderId: number) {
+  const [order] = await Promise.all([
+    orders.fetch(orderId),
+    offersByOrder.fetch(orderId),
+  ]);
+  offersByUser.invalidate(() => true);
+  return order;
+}
+
+// Mutations
+
+export async function updateSkills(skills: string[]) {
+  users.setMany([await api.updateSkills(skills)]);
+}
+
+export async function createOrder(order: NewOrder) {
+  await api.createOrder(order);
+  ordersByUser.invalidate(() => true);
+}
+
+export async function updateOrder(orderId: number, order: OrderUpdate) {
+  await api.updateOrder(orderId, order);
+  return orders.fetch(orderId);
+}
+
+export async function updateOrderStatus(orderId: number, status: OrderStatus) {
+  await api.updateOrderStatus(orderId, status);
+  // Cancelling rejects the offers still under negotiation
+  return refreshOrder(orderId);
+}
+
+export async function deleteOrder(orderId: number) {
+  await api.deleteOrder(orderId);
+  // Lists still holding the id drop it when resolving
+  orders.remove(orderId);
+  offersByOrder.remove(orderId);
+  ordersByUser.invalidate(() => true);
+  offersByUser.invalidate(() => true);
+}
+
+export async function createOffer(offer: NewOffer) {
+  await api.createOffer(offer);
+  offersByOrder.invalidate(offer.order_id);
+  offersByUser.invalidate(() => true);
+}
+
+export async function updateOfferStatus(offer: Offer, status: string) {
+  await api.updateOfferStatus(offer.offer_id, status);
+  // Accepting moves the order on and rejects the other offers
+  await refreshOrder(offer.order_id);
+}
+
+export async function counterOffer(offer: Offer, terms: OfferTerms) {
+  await api.counterOffer(offer.offer_id, terms);
+  await refreshOrder(offer.order_id);
+}
+
+export async function deleteOffer(offer: Offer) {
+  await api.deleteOffer(offer.offer_id);
+  offers.remove(offer.offer_id);
+  offersByOrder.invalidate(offer.order_id);
+  offersByUser.invalidate(() => true);
+}
+
+export async function createReview(review: NewReview) {
+  await api.createReview(review);
+  await reviewsByUser.fetch(review.user_id);
+}
+
+// Forgets everything, called on logout
+export function clearStore() {
+  for (const resource of [
+    users,
+    orders,
+    offers,
+    reviews,
+    ordersByUser,
+    offersByOrder,
+    offersByUser,
+    reviewsByUser,
+  ]) {
+    resource.clear();
+  }
+}
@@ -0,0 +1,33 @@
+// Upload pipeline shared by order images and chat attachments: picked files
+// are prepared in the browser and sent to the upload service by
+// src/lib/fileUploader.ts, see useFileUploads() for the per-file state.
+
+// Largest file accepted as a chat attachment
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Raster formats shown inline. Anything else, SVG included, is only offered
+// for download: opened from the upload service it could run script.
+export const INLINE_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+];
+
+export const isImageType = (mimeType: string) =>
+  INLINE_IMAGE_TYPES.includes(mimeType.toLowerCase());
+
+// A declared MIME type when it looks like one, for files of unknown origin
+export const readMimeType = (value: unknown) =>
+  typeof value === "string" && /^[a-z]+\/[a-z0-9.+-]+$/i.test(value)
+    ? value.toLowerCase()
+    : "application/octet-stream";
+
+// "850 B", "12 KB", "3,4 MB"
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toLocaleString("pl-PL", {
+    maximumFractionDigits: 1,
+  })} MB`;
+}
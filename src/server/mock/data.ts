@@ -0,0 +1,377 @@
+import type {
+  Attachment,
+  Message,
+  NotificationPreferences,
+  Offer,
+  Order,
+  PushNotification,
+  Review,
+  User,
+} from "../../types";
+import type { StoredSubscription } from "./webPush";
+
+// In-memory state of the mock backend. Everything is lost on restart and
+// can be restored to the seed with resetMockData().
+
+export interface MockState {
+  users: User[];
+  orders: Order[];
+  offers: Offer[];
+  reviews: Review[];
+  messages: Message[];
+  attachments: StoredAttachment[];
+  // When each user's last chat connection closed
+  lastSeen: { [userId: number]: string };
+  // Users without an entry get notifications of every category
+  notificationPreferences: { [userId: number]: NotificationPreferences };
+  pushSubscriptions: (StoredSubscription & { user_id: number })[];
+  // Every push sent, oldest first, listed by GET /mock-api/__push
+  sentPushes: SentPush[];
+  nextId: {
+    user: number;
+    order: number;
+    offer: number;
+    review: number;
+    message: number;
+    attachment: number;
+  };
+}
+
+// Chat attachment, the file itself is kept by the upload service
+export interface StoredAttachment extends Attachment {
+  user_id: number;
+  // Set once sent, attachments belong to a single message
+  message_id?: number;
+}
+
+export interface SentPush {
+  user_id: number;
+  endpoint: string;
+  notification: PushNotification;
+  // Response status of the push service, 0 when it wasn't reached
+  status: number;
+  sent_at: string;
+}
+
+export const SEED_PASSWORD = "haslo123";
+
+export const hashPassword = (password: string) =>
+  Bun.password.hashSync(password, { algorithm: "bcrypt", cost: 4 });
+
+// Seed timestamps are relative to startup so "today"/"yesterday" labels work
+const daysAgo = (days: number, hours = 0) =>
+  new Date(Date.now() - (days * 24 + hours) * 60 * 60 * 1000).toISOString();
+
+// YYYY-MM-DD date `days` from now, negative for past dates
+const dateIn = (days: number) => daysAgo(-days).slice(0, 10);
+
+function seed(): MockState {
+  const passwordHash = hashPassword(SEED_PASSWORD);
+  const user = (
+    user_id: number,
+    username: string,
+    days: number,
+    skills: string[] = [],
+  ): User => ({
+    user_id,
+    username,
+    email: `${username}@example.com`,
+    password_hash: passwordHash,
+    created_at: daysAgo(days),
+    skills,
+  });
+
+  const users = [
+    user(1, "jan", 120, ["elektronika", "lutowanie", "esp32", "c++"]),
+    user(2, "anna", 90, ["druk 3d", "fusion 360", "projektowanie pcb"]),
+    user(3, "piotr", 45, ["naprawy", "laptopy"]),
+    user(4, "kasia", 10),
+  ];
+
+  const orders: Order[] = [
+    {
+      order_id: 1,
+      user_id: 1,
+      order_name: "Naprawa zasilacza ATX",
+      order_desc:
+        "Zasilacz 650W przestał się włączać po burzy. Potrzebna diagnoza i wymiana uszkodzonych elementów.",
+      price: 120,
+      image_urls: [],
+      created_at: daysAgo(6),
+      status: "open",
+      category: "repair",
+      tags: ["zasilacz", "lutowanie", "diagnostyka"],
+    },
+    {
+      order_id: 2,
+      user_id: 2,
+      order_name: "Wydruk 3D obudowy do Raspberry Pi",
+      order_desc:
+        "Obudowa z PETG według dostarczonego pliku STL, kolor czarny, 2 sztuki.",
+      price: 80,
+      image_urls: [],
+      created_at: daysAgo(4),
+      status: "in_progress",
+      category: "3d_printing",
+      tags: ["petg", "raspberry pi"],
+    },
+    {
+      order_id: 3,
+      user_id: 2,
+      order_name: "Sterownik nawadniania na ESP32",
+      order_desc: [
+        "Program na **ESP32** sterujący czterema zaworami według harmonogramu.",
+        "",
+        "## Wymagania",
+        "- konfiguracja przez WiFi (strona w trybie AP)",
+        "- harmonogram zapisany w pamięci flash",
+        "- ręczne włączenie zaworu przyciskiem",
+        "",
+        "| Zawór | GPIO |",
+        "|-------|-----:|",
+        "| 1 | 16 |",
+        "| 2 | 17 |",
+        "| 3 | 18 |",
+        "| 4 | 19 |",
+      ].join("\n"),
+      price: 450,
+      image_urls: [],
+      created_at: daysAgo(3),
+      status: "open",
+      category: "programming",
+      tags: ["esp32", "c++", "wifi"],
+    },
+    {
+      order_id: 4,
+      user_id: 3,
+      order_name: "Wymiana matrycy w laptopie",
+      order_desc:
+        "Lenovo ThinkPad T480, pęknięta matryca. Matryca już zakupiona, potrzebny montaż.",
+      price: 150,
+      image_urls: [],
+      created_at: daysAgo(2),
+      status: "open",
+      category: "repair",
+      tags: ["laptopy", "thinkpad"],
+    },
+    {
+      order_id: 5,
+      user_id: 4,
+      order_name: "Projekt PCB dla wzmacniacza audio",
+      order_desc:
+        "Dwuwarstwowa płytka dla wzmacniacza klasy D na TPA3116, schemat gotowy.",
+      price: 300,
+      image_urls: [],
+      created_at: daysAgo(1),
+      status: "open",
+      category: "design",
+      tags: ["projektowanie pcb", "kicad", "audio"],
+    },
+    {
+      order_id: 6,
+      user_id: 1,
+      order_name: "Strona internetowa dla warsztatu",
+      order_desc:
+        "Prosta strona wizytówka z cennikiem i formularzem kontaktowym.",
+      price: 900,
+      image_urls: [],
+      created_at: daysAgo(0, 5),
+      status: "open",
+      category: "programming",
+      tags: ["strona www", "html"],
+    },
+  ];
+
+  const offers: Offer[] = [
+    {
+      offer_id: 1,
+      order_id: 1,
+      user_id: 3,
+      status: "pending",
+      created_at: daysAgo(5),
+      proposed_price: 110,
+      completion_date: dateIn(3),
+      message:
+        "Mam doświadczenie z zasilaczami ATX, diagnozę zrobię w dniu odbioru.",
+    },
+    {
+      offer_id: 2,
+      order_id: 2,
+      user_id: 1,
+      status: "accepted",
+      created_at: daysAgo(3),
+      proposed_price: 80,
+      completion_date: dateIn(-1),
+      message: "Drukuję na Prusie MK4, PETG w czarnym kolorze mam na stanie.",
+    },
+    {
+      offer_id: 3,
+      order_id: 3,
+      user_id: 4,
+      status: "pending",
+      created_at: daysAgo(2),
+      proposed_price: 520,
+      completion_date: dateIn(14),
+      message:
+        "Zrobię to na ESP-IDF z panelem WWW do ustawiania harmonogramu. Cena obejmuje testy z zaworami.",
+    },
+    {
+      offer_id: 4,
+      order_id: 4,
+      user_id: 1,
+      status: "rejected",
+      created_at: daysAgo(1),
+      proposed_price: 150,
+      completion_date: dateIn(2),
+      message: "Mogę wymienić matrycę od ręki, mam potrzebne narzędzia.",
+    },
+  ];
+
+  // Every offer starts with the application as its first negotiation round
+  for (const offer of offers) {
+    offer.history = [
+      {
+        user_id: offer.user_id,
+        proposed_price: offer.proposed_price!,
+        completion_date: offer.completion_date!,
+        message: offer.message!,
+        created_at: offer.created_at,
+      },
+    ];
+  }
+
+  // anna countered kasia's bid on the irrigation controller
+  const counter = {
+    user_id: 2,
+    proposed_price: 480,
+    completion_date: dateIn(21),
+    message: "Budżet mam do 480 zł, za to termin może być dłuższy.",
+    created_at: daysAgo(1),
+  };
+  Object.assign(offers[2]!, {
+    status: "countered",
+    proposed_price: counter.proposed_price,
+    completion_date: counter.completion_date,
+    message: counter.message,
+    history: [...offers[2]!.history!, counter],
+  });
+
+  const reviews: Review[] = [
+    {
+      review_id: 1,
+      user_reviewed: 1,
+      user_reviewing: 2,
+      rating: 5,
+      content: "Szybko i profesjonalnie, polecam!",
+      created_at: daysAgo(20),
+    },
+    {
+      review_id: 2,
+      user_reviewed: 1,
+      user_reviewing: 3,
+      rating: 4,
+      content: "Dobra robota, drobne opóźnienie.",
+      created_at: daysAgo(8),
+    },
+    {
+      review_id: 3,
+      user_reviewed: 2,
+      user_reviewing: 1,
+      rating: 5,
+      content: "Bardzo dobry kontakt i jasna specyfikacja.",
+      created_at: daysAgo(7),
+    },
+  ];
+
+  // A longer thread between anna and jan about order 2, enough to need
+  // more than one page of history
+  const printThread = [
+    "Dzień dobry, przesyłam plik STL obudowy.",
+    "Dzięki, już sprawdzam model.",
+    "Czy otwory na porty są dobrze wymiarowane?",
+    "Wyglądają dobrze, dodałbym tylko 0,2 mm luzu.",
+    "Proszę dodać, nie znam się na tolerancjach.",
+    "Jasne. Jakie wypełnienie? Proponuję 30%.",
+    "Może być 30%.",
+    "Drukuję pierwszą sztukę na próbę.",
+    "Super, proszę dać znać jak wyszło.",
+    "Pierwsza sztuka gotowa, wysyłam zdjęcie mailem.",
+    "Wygląda świetnie!",
+    "Zatrzaski trzymają pewnie, ale dają się otworzyć.",
+    "O to chodziło.",
+    "Zaczynam drugą sztukę.",
+    "Czy da się dodać logo na pokrywie?",
+    "Tak, wytłoczone na 0,6 mm. Potrzebuję pliku SVG.",
+    "Wysłałam SVG.",
+    "Mam, dodam przy drugiej sztuce.",
+    "A pierwszą można poprawić?",
+    "Wydrukuję nową pokrywę, to tylko godzina.",
+    "Dziękuję bardzo!",
+    "Obie sztuki będą gotowe jutro.",
+    "Odbiorę osobiście po 17, pasuje?",
+    "Pasuje, do zobaczenia.",
+  ].map(
+    (content, index): Message => ({
+      message_id: index + 3,
+      sender_id: index % 2 === 0 ? 2 : 1,
+      receiver_id: index % 2 === 0 ? 1 : 2,
+      content,
+      sent_at: daysAgo(3, 48 - index * 2),
+      delivered_at: daysAgo(3, 48 - index * 2),
+      read_at: daysAgo(2),
+    }),
+  );
+
+  const messages: Message[] = [
+    {
+      message_id: 1,
+      sender_id: 3,
+      receiver_id: 1,
+      content: "Dzień dobry, mogę obejrzeć zasilacz jutro.",
+      sent_at: daysAgo(1, 3),
+      delivered_at: daysAgo(1, 3),
+    },
+    {
+      message_id: 2,
+      sender_id: 1,
+      receiver_id: 3,
+      content: "Świetnie, zapraszam po 16.",
+      sent_at: daysAgo(1, 2),
+      delivered_at: daysAgo(1, 2),
+      read_at: daysAgo(1, 1),
+    },
+    ...printThread,
+  ];
+
+  return {
+    users,
+    orders,
+    offers,
+    reviews,
+    messages,
+    attachments: [],
+    lastSeen: {
+      1: daysAgo(0, 1),
+      2: daysAgo(0, 5),
+      3: daysAgo(1),
+      4: daysAgo(6),
+    },
+    notificationPreferences: {},
+    pushSubscriptions: [],
+    sentPushes: [],
+    nextId: {
+      user: users.length + 1,
+      order: orders.length + 1,
+      offer: offers.length + 1,
+      review: reviews.length + 1,
+      message: messages.length + 1,
+      attachment: 1,
+    },
+  };
+}
+
+export const state: MockState = seed();
+
+export function resetMockData() {
+  Object.assign(state, seed());
+}
@@ -0,0 +1,1113 @@
+import type { Server, ServerWebSocket, WebSocketHandler } from "bun";
+import {
+  countCategories,
+  isOrderCategory,
+  MAX_SKILLS,
+  normalizeTags,
+} from "../../lib/orderCategories";
+import {
+  applyOrderSearch,
+  type OrderSearch,
+  type OrderSort,
+} from "../../lib/orderSearch";
+import { getOfferTurn, isOfferNegotiable } from "../../lib/offerStatus";
+import {
+  canTransitionOrder,
+  getOrderStatus,
+  isOrderStatus,
+} from "../../lib/orderStatus";
+import {
+  describeMessage,
+  describeOfferEvent,
+  describeReview,
+} from "../../lib/notificationText";
+import { MAX_ATTACHMENT_SIZE, readMimeType } from "../../lib/uploads";
+import type {
+  Attachment,
+  Conversation,
+  Message,
+  NotificationPreferences,
+  Offer,
+  OfferEvent,
+  Order,
+  Presence,
+  PresenceEvent,
+  PushNotification,
+  ReceiptEvent,
+  Review,
+  ReviewEvent,
+  TypingEvent,
+  User,
+} from "../../types";
+import {
+  hashPassword,
+  resetMockData,
+  state,
+  type StoredAttachment,
+} from "./data";
+import type { SocketData } from "../websocket";
+import { signToken, verifyToken } from "./jwt";
+import { getVapidPublicKey, sendPush } from "./webPush";
+
+// In-memory implementation of the marketplace API, mounted under
+// MOCK_API_PREFIX by src/index.tsx when MOCK_API=1. Paths and payloads
+// mirror the production backend so the frontend can't tell the difference.
+
+export const MOCK_API_PREFIX = "/mock-api";
+
+export interface MockSocketData {
+  kind: "mock";
+  userId: number;
+}
+
+// Open chat sockets per user, a user may have several tabs open
+const sockets = new Map<number, Set<ServerWebSocket<MockSocketData>>>();
+
+const text = (body: string, status = 200) => new Response(body, { status });
+const error = (message: string, status: number) => text(message, status);
+
+// Password hashes never leave the mock, but the field is part of the User type
+const publicUser = (user: User): User => ({ ...user, password_hash: "" });
+
+function authenticate(req: Request): number | null {
+  const header = req.headers.get("Authorization") ?? "";
+  const token = header.startsWith("Bearer ")
+    ? header.slice("Bearer ".length)
+    : new URL(req.url).searchParams.get("token");
+  if (!token) return null;
+
+  const userId = verifyToken(token);
+  return state.users.some((user) => user.user_id === userId) ? userId : null;
+}
+
+async function readJson<T>(req: Request): Promise<T | null> {
+  try {
+    return (await req.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Wraps a handler that needs a logged-in user
+function authed<R extends Request>(
+  handler: (req: R, userId: number) => Response | Promise<Response>,
+) {
+  return (req: R) => {
+    const userId = authenticate(req);
+    if (userId === null) return error("Unauthorized", 401);
+    return handler(req, userId);
+  };
+}
+
+const matches = (query: string, ...fields: string[]) => {
+  const needle = query.trim().toLowerCase();
+  return (
+    !needle || fields.some((field) => field.toLowerCase().includes(needle))
+  );
+};
+
+// Comma separated ids of a batch request, e.g. ?ids=1,2,3
+function idList(req: Request, name: string) {
+  const value = new URL(req.url).searchParams.get(name) ?? "";
+  return new Set(value.split(",").filter(Boolean).map(Number));
+}
+
+// Applies the optional limit/offset query parameters to a result list
+function paginate<T>(items: T[], params: URLSearchParams) {
+  const offset = Math.max(0, Number(params.get("offset")) || 0);
+  const limit = Number(params.get("limit"));
+  return limit > 0 ? items.slice(offset, offset + limit) : items.slice(offset);
+}
+
+// Search criteria of /orders/search, see orderSearchParams()
+function readOrderSearch(params: URLSearchParams): OrderSearch {
+  const number = (name: string) =>
+    params.has(name) ? Number(params.get(name)) : undefined;
+  const category = params.get("category");
+  return {
+    query: params.get("query")?.trim() || undefined,
+    minPrice: number("min_price"),
+    maxPrice: number("max_price"),
+    createdFrom: params.get("created_from") ?? undefined,
+    createdTo: params.get("created_to") ?? undefined,
+    hasImages: params.get("has_images") === "true",
+    excludeUserId: number("exclude_user"),
+    statuses: params.get("status")?.split(",").filter(isOrderStatus),
+    category: isOrderCategory(category) ? category : undefined,
+    skills: params.has("skills")
+      ? normalizeTags(params.get("skills")!.split(","), MAX_SKILLS)
+      : undefined,
+    sort: (params.get("sort") as OrderSort | null) ?? "newest",
+  };
+}
+
+// Rejects the offers still under negotiation, e.g. once one was accepted
+function rejectPendingOffers(orderId: number, ownerId: number) {
+  for (const offer of state.offers) {
+    if (offer.order_id === orderId && isOfferNegotiable(offer)) {
+      offer.status = "rejected";
+      notifyOfferEvent(offer, "rejected", ownerId);
+    }
+  }
+}
+
+// Side of the negotiation `userId` is on, null for outsiders
+function offerRole(offer: Offer, order: Order, userId: number) {
+  if (order.user_id === userId) return "owner";
+  if (offer.user_id === userId) return "applicant";
+  return null;
+}
+
+// Validated offer terms from a request body, null when incomplete
+function readOfferTerms(
+  body: {
+    proposed_price?: number;
+    completion_date?: string;
+    message?: string;
+  } | null,
+) {
+  if (
+    typeof body?.proposed_price !== "number" ||
+    body.proposed_price <= 0 ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(body.completion_date ?? "")
+  ) {
+    return null;
+  }
+  return {
+    proposed_price: body.proposed_price,
+    completion_date: body.completion_date!,
+    message: body.message?.trim() ?? "",
+  };
+}
+
+// Appends a negotiation round and makes its terms the current ones
+function addOfferRound(
+  offer: Offer,
+  userId: number,
+  terms: NonNullable<ReturnType<typeof readOfferTerms>>,
+) {
+  offer.history = [
+    ...(offer.history ?? []),
+    { user_id: userId, ...terms, created_at: new Date().toISOString() },
+  ];
+  Object.assign(offer, terms);
+}
+
+// Files are sent to the upload service first and referenced by URL, the
+// mock only checks they look like one
+const isFileUrl = (value: unknown): value is string =>
+  typeof value === "string" && /^(https?:\/\/|\/)/.test(value);
+
+const readImageUrls = (value: unknown) =>
+  Array.isArray(value) ? value.filter(isFileUrl) : [];
+
+const publicAttachment = ({
+  attachment_id,
+  name,
+  mime_type,
+  size,
+  url,
+}: StoredAttachment): Attachment => ({
+  attachment_id,
+  name,
+  mime_type,
+  size,
+  url,
+});
+
+// The other side of a conversation `userId` takes part in, null otherwise
+function otherParty(message: Message, userId: number) {
+  if (message.sender_id === userId) return message.receiver_id;
+  if (message.receiver_id === userId) return message.sender_id;
+  return null;
+}
+
+// Sends a payload to every open socket of the given users
+function push(userIds: Iterable<number>, payload: unknown) {
+  const data = JSON.stringify(payload);
+  for (const userId of new Set(userIds)) {
+    for (const ws of sockets.get(userId) ?? []) {
+      ws.send(data);
+    }
+  }
+}
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  messages: true,
+  offers: true,
+  reviews: true,
+};
+
+const preferencesOf = (userId: number) =>
+  state.notificationPreferences[userId] ?? DEFAULT_PREFERENCES;
+
+const findUser = (userId: number) =>
+  state.users.find((user) => user.user_id === userId);
+
+// Web Push to every browser the user subscribed, in the background. Expired
+// subscriptions are dropped.
+function sendNotification(
+  userId: number,
+  notification: PushNotification,
+  { force = false } = {},
+) {
+  if (!force && !preferencesOf(userId)[notification.category]) return;
+
+  const payload = JSON.stringify(notification);
+  for (const subscription of state.pushSubscriptions) {
+    if (subscription.user_id !== userId) continue;
+    sendPush(subscription, payload).then(({ status, isGone }) => {
+      state.sentPushes.push({
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        notification,
+        status,
+        sent_at: new Date().toISOString(),
+      });
+      if (isGone) {
+        state.pushSubscriptions = state.pushSubscriptions.filter(
+          (s) => s !== subscription,
+        );
+      }
+    });
+  }
+}
+
+// Users `userId` has a conversation with
+function partnersOf(userId: number) {
+  const partners = new Set<number>();
+  for (const message of state.messages) {
+    const otherId = otherParty(message, userId);
+    if (otherId !== null) partners.add(otherId);
+  }
+  return partners;
+}
+
+const presenceOf = (userId: number): Presence => ({
+  user_id: userId,
+  online: (sockets.get(userId)?.size ?? 0) > 0,
+  last_seen: state.lastSeen[userId] ?? null,
+});
+
+function broadcastPresence(userId: number) {
+  const payload: PresenceEvent = { type: "presence", ...presenceOf(userId) };
+  push(partnersOf(userId), payload);
+}
+
+// Tells the senders of `messages` that `userId` received or read them
+function sendReceipts(
+  messages: Message[],
+  userId: number,
+  status: ReceiptEvent["status"],
+  at: string,
+) {
+  const bySender = Map.groupBy(messages, (message) => message.sender_id);
+  for (const [senderId, sent] of bySender) {
+    const payload: ReceiptEvent = {
+      type: "receipt",
+      user_id: userId,
+      message_ids: sent.map((message) => message.message_id),
+      status,
+      at,
+    };
+    push([senderId], payload);
+  }
+}
+
+function deliver(message: Message) {
+  if (sockets.get(message.receiver_id)?.size) {
+    message.delivered_at = message.sent_at;
+  }
+  push([message.sender_id, message.receiver_id], message);
+  sendNotification(message.receiver_id, {
+    category: "messages",
+    ...describeMessage(message, findUser(message.sender_id)),
+    tag: `chat-${message.sender_id}`,
+  });
+}
+
+// Tells the other side of an offer what `actorId` did with it
+function notifyOfferEvent(
+  offer: Offer,
+  event: OfferEvent["event"],
+  actorId: number,
+) {
+  const order = state.orders.find((o) => o.order_id === offer.order_id);
+  const recipients = [offer.user_id, order?.user_id ?? offer.user_id].filter(
+    (userId) => userId !== actorId,
+  );
+  const payload: OfferEvent = { type: "offer", event, offer, user_id: actorId };
+  push(recipients, payload);
+  for (const recipientId of recipients) {
+    sendNotification(recipientId, {
+      category: "offers",
+      ...describeOfferEvent(payload, recipientId, findUser(actorId), order),
+      tag: `offer-${offer.offer_id}`,
+    });
+  }
+}
+
+function notifyReview(review: Review) {
+  const payload: ReviewEvent = { type: "review", review };
+  push([review.user_reviewed], payload);
+  sendNotification(review.user_reviewed, {
+    category: "reviews",
+    ...describeReview(review, findUser(review.user_reviewing)),
+  });
+}
+
+export const mockRoutes = {
+  // Users
+  "/mock-api/user/login": {
+    async POST(req: Request) {
+      const body = await readJson<{ username?: string; password?: string }>(
+        req,
+      );
+      const user = state.users.find((u) => u.username === body?.username);
+      if (
+        !user ||
+        !body?.password ||
+        !(await Bun.password.verify(body.password, user.password_hash))
+      ) {
+        return error("Invalid credentials", 401);
+      }
+      return text(signToken(user.user_id));
+    },
+  },
+
+  "/mock-api/user/register": {
+    async POST(req: Request) {
+      const body = await readJson<{
+        username?: string;
+        email?: string;
+        password?: string;
+      }>(req);
+      const username = body?.username?.trim();
+      const email = body?.email?.trim();
+      if (!username || !email || !body?.password) {
+        return error("username, email and password are required", 400);
+      }
+      if (
+        state.users.some((u) => u.username === username || u.email === email)
+      ) {
+        return error("User already exists", 409);
+      }
+
+      const user: User = {
+        user_id: state.nextId.user++,
+        username,
+        email,
+        password_hash: hashPassword(body.password),
+        created_at: new Date().toISOString(),
+      };
+      state.users.push(user);
+      return Response.json(publicUser(user), { status: 201 });
+    },
+  },
+
+  "/mock-api/user/search": {
+    GET: authed((req) => {
+      const query = new URL(req.url).searchParams.get("query") ?? "";
+      return Response.json(
+        state.users.filter((u) => matches(query, u.username)).map(publicUser),
+      );
+    }),
+  },
+
+  "/mock-api/user/presence": {
+    // Like the batch endpoint, ids that don't exist are left out
+    GET: authed((req) =>
+      Response.json(
+        [...idList(req, "ids")].filter((id) => findUser(id)).map(presenceOf),
+      ),
+    ),
+  },
+
+  "/mock-api/user/batch": {
+    GET: authed((req) => {
+      const ids = idList(req, "ids");
+      return Response.json(
+        state.users.filter((u) => ids.has(u.user_id)).map(publicUser),
+      );
+    }),
+  },
+
+  "/mock-api/user/skills": {
+    PUT: authed(async (req, userId) => {
+      const body = await readJson<{ skills?: unknown }>(req);
+      if (!Array.isArray(body?.skills)) {
+        return error("skills are required", 400);
+      }
+      const user = findUser(userId);
+      if (!user) return error("User not found", 404);
+      user.skills = normalizeTags(body.skills, MAX_SKILLS);
+      return Response.json(publicUser(user));
+    }),
+  },
+
+  "/mock-api/user/:id": {
+    GET: authed((req: Bun.BunRequest<"/mock-api/user/:id">) => {
+      const user = state.users.find((u) => u.user_id === Number(req.params.id));
+      return user
+        ? Response.json(publicUser(user))
+        : error("User not found", 404);
+    }),
+  },
+
+  // Orders
+  "/mock-api/orders/search": {
+    GET: authed((req) => {
+      const params = new URL(req.url).searchParams;
+      const results = applyOrderSearch(state.orders, readOrderSearch(params));
+      return Response.json(paginate(results, params));
+    }),
+  },
+
+  "/mock-api/orders/facets": {
+    GET: authed((req) => {
+      const search = readOrderSearch(new URL(req.url).searchParams);
+      return Response.json(
+        countCategories(
+          applyOrderSearch(state.orders, { ...search, category: undefined }),
+        ),
+      );
+    }),
+  },
+
+  "/mock-api/orders/batch": {
+    GET: authed((req) => {
+      const ids = idList(req, "ids");
+      return Response.json(state.orders.filter((o) => ids.has(o.order_id)));
+    }),
+  },
+
+  "/mock-api/orders/user/:id": {
+    GET: authed((req: Bun.BunRequest<"/mock-api/orders/user/:id">) =>
+      Response.json(
+        state.orders.filter((o) => o.user_id === Number(req.params.id)),
+      ),
+    ),
+  },
+
+  "/mock-api/orders/:id": {
+    GET: authed((req: Bun.BunRequest<"/mock-api/orders/:id">) => {
+      const order = state.orders.find(
+        (o) => o.order_id === Number(req.params.id),
+      );
+      return order ? Response.json(order) : error("Order not found", 404);
+    }),
+    POST: authed(
+      async (req: Bun.BunRequest<"/mock-api/orders/:id">, userId) => {
+        const order = state.orders.find(
+          (o) => o.order_id === Number(req.params.id),
+        );
+        if (!order) return error("Order not found", 404);
+        if (order.user_id !== userId) return error("Forbidden", 403);
+        // The agreed terms can't change once an offer was accepted
+        if (getOrderStatus(order) !== "open") {
+          return error("Only open orders can be edited", 409);
+        }
+
+        const body = await readJson<{
+          order_name?: string;
+          order_desc?: string;
+          price?: number;
+          image_urls?: unknown;
+          category?: unknown;
+          tags?: unknown;
+        }>(req);
+        if (!body?.order_name?.trim() || typeof body.price !== "number") {
+          return error("order_name and price are required", 400);
+        }
+
+        order.order_name = body.order_name.trim();
+        order.order_desc = body.order_desc ?? "";
+        order.price = body.price;
+        if (body.image_urls !== undefined) {
+          order.image_urls = readImageUrls(body.image_urls);
+        }
+        if (isOrderCategory(body.category)) order.category = body.category;
+        if (body.tags !== undefined) order.tags = normalizeTags(body.tags);
+        return Response.json(order);
+      },
+    ),
+    DELETE: authed((req: Bun.BunRequest<"/mock-api/orders/:id">, userId) => {
+      const index = state.orders.findIndex(
+        (o) => o.order_id === Number(req.params.id),
+      );
+      const order = state.orders[index];
+      if (!order) return error("Order not found", 404);
+      if (order.user_id !== userId) return error("Forbidden", 403);
+      // The accepted work has to be cancelled first
+      if (getOrderStatus(order) === "in_progress") {
+        return error("Orders in progress can't be deleted", 409);
+      }
+
+      // Applicants hear about it while the order can still be described
+      rejectPendingOffers(order.order_id, userId);
+      state.orders.splice(index, 1);
+      // Offers can't outlive their order
+      state.offers = state.offers.filter((o) => o.order_id !== order.order_id);
+      return text("Order deleted");
+    }),
+  },
+
+  "/mock-api/orders/:id/status": {
+    POST: authed(
+      async (req: Bun.BunRequest<"/mock-api/orders/:id/status">, userId) => {
+        const order = state.orders.find(
+          (o) => o.order_id === Number(req.params.id),
+        );
+        if (!order) return error("Order not found", 404);
+        if (order.user_id !== userId) return error("Forbidden", 403);
+
+        const body = await readJson<{ status?: string }>(req);
+        if (!isOrderStatus(body?.status)) {
+          return error("Invalid status", 400);
+        }
+        if (!canTransitionOrder(getOrderStatus(order), body.status)) {
+          return error(
+            `Cannot change status from ${getOrderStatus(order)} to ${body.status}`,
+            409,
+          );
+        }
+
+        order.status = body.status;
+        if (order.status === "cancelled") {
+          rejectPendingOffers(order.order_id, userId);
+        }
+        return Response.json(order);
+      },
+    ),
+  },
+
+  "/mock-api/order": {
+    POST: authed(async (req, userId) => {
+      const body = await readJson<{
+        order_name?: string;
+        order_desc?: string;
+        price?: number;
+        image_urls?: unknown;
+        category?: unknown;
+        tags?: unknown;
+      }>(req);
+      if (!body?.order_name?.trim() || typeof body.price !== "number") {
+        return error("order_name and price are required", 400);
+      }
+
+      const order: Order = {
+        order_id: state.nextId.order++,
+        user_id: userId,
+        order_name: body.order_name.trim(),
+        order_desc: body.order_desc ?? "",
+        price: body.price,
+        image_urls: readImageUrls(body.image_urls),
+        created_at: new Date().toISOString(),
+        status: "open",
+        category: isOrderCategory(body.category) ? body.category : "other",
+        tags: normalizeTags(body.tags),
+      };
+      state.orders.push(order);
+      return Response.json(order, { status: 201 });
+    }),
+  },
+
+  // Offers
+  "/mock-api/offer": {
+    POST: authed(async (req, userId) => {
+      const body = await readJson<{
+        order_id?: number;
+        proposed_price?: number;
+        completion_date?: string;
+        message?: string;
+      }>(req);
+      const order = state.orders.find((o) => o.order_id === body?.order_id);
+      if (!order) return error("Order not found", 404);
+      if (order.user_id === userId) {
+        return error("Cannot apply to your own order", 400);
+      }
+      if (getOrderStatus(order) !== "open") {
+        return error("Order is not open", 409);
+      }
+      if (
+        state.offers.some(
+          (o) => o.order_id === order.order_id && o.user_id === userId,
+        )
+      ) {
+        return error("Offer already exists", 409);
+      }
+      const terms = readOfferTerms(body);
+      if (!terms) {
+        return error("proposed_price and completion_date are required", 400);
+      }
+
+      const offer: Offer = {
+        offer_id: state.nextId.offer++,
+        order_id: order.order_id,
+        user_id: userId,
+        status: "pending",
+        created_at: new Date().toISOString(),
+      };
+      addOfferRound(offer, userId, terms);
+      state.offers.push(offer);
+      notifyOfferEvent(offer, "created", userId);
+      return Response.json(offer, { status: 201 });
+    }),
+  },
+
+  "/mock-api/offers/user/:id": {
+    GET: authed((req: Bun.BunRequest<"/mock-api/offers/user/:id">) =>
+      Response.json(
+        state.offers.filter((o) => o.user_id === Number(req.params.id)),
+      ),
+    ),
+  },
+
+  "/mock-api/offers/order/:id": {
+    GET: authed((req: Bun.BunRequest<"/mock-api/offers/order/:id">) =>
+      Response.json(
+        state.offers.filter((o) => o.order_id === Number(req.params.id)),
+      ),
+    ),
+  },
+
+  "/mock-api/offers/batch": {
+    GET: authed((req) => {
+      const ids = idList(req, "order_ids");
+      return Response.json(state.offers.filter((o) => ids.has(o.order_id)));
+    }),
+  },
+
+  "/mock-api/offers/:id": {
+    POST: authed(
+      async (req: Bun.BunRequest<"/mock-api/offers/:id">, userId) => {
+        const offer = state.offers.find(
+          (o) => o.offer_id === Number(req.params.id),
+        );
+        if (!offer) return error("Offer not found", 404);
+        const order = state.orders.find((o) => o.order_id === offer.order_id);
+        if (!order) return error("Order not found", 404);
+        const role = offerRole(offer, order, userId);
+        if (!role) return error("Forbidden", 403);
+
+        const body = await readJson<{ status?: string }>(req);
+        const allowed = {
+          owner: ["accepted", "rejected"],
+          applicant: ["accepted", "withdrawn"],
+        }[role];
+        if (!body?.status || !allowed.includes(body.status)) {
+          return error(`status must be one of ${allowed.join(", ")}`, 400);
+        }
+        if (!isOfferNegotiable(offer)) {
+          return error("Offer is no longer negotiable", 409);
+        }
+        if (body.status === "accepted") {
+          // Only the side answering the latest terms can accept them
+          if (getOfferTurn(offer) !== role) {
+            return error("Waiting for the other side", 409);
+          }
+          if (getOrderStatus(order) !== "open") {
+            return error("Order is not open", 409);
+          }
+          // Accepting an offer assigns the order, the other applicants lose
+          // Set first so it isn't rejected along with the others
+          offer.status = body.status;
+          order.status = "in_progress";
+          rejectPendingOffers(order.order_id, order.user_id);
+        }
+        offer.status = body.status;
+        notifyOfferEvent(offer, body.status as OfferEvent["event"], userId);
+        return Response.json(offer);
+      },
+    ),
+    DELETE: authed((req: Bun.BunRequest<"/mock-api/offers/:id">, userId) => {
+      const index = state.offers.findIndex(
+        (o) => o.offer_id === Number(req.params.id),
+      );
+      const offer = state.offers[index];
+      if (!offer) return error("Offer not found", 404);
+      if (offer.user_id !== userId) return error("Forbidden", 403);
+      // Offers the owner already responded to stay on record
+      if (offer.status !== "pending") {
+        return error("Only pending offers can be deleted", 409);
+      }
+
+      state.offers.splice(index, 1);
+      return text("Offer deleted");
+    }),
+  },
+
+  "/mock-api/offers/:id/counter": {
+    POST: authed(
+      async (req: Bun.BunRequest<"/mock-api/offers/:id/counter">, userId) => {
+        const offer = state.offers.find(
+          (o) => o.offer_id === Number(req.params.id),
+        );
+        if (!offer) return error("Offer not found", 404);
+        const order = state.orders.find((o) => o.order_id === offer.order_id);
+        if (!order) return error("Order not found", 404);
+        const role = offerRole(offer, order, userId);
+        if (!role) return error("Forbidden", 403);
+
+        if (!isOfferNegotiable(offer) || getOrderStatus(order) !== "open") {
+          return error("Offer is no longer negotiable", 409);
+        }
+        if (getOfferTurn(offer) !== role) {
+          return error("Waiting for the other side", 409);
+        }
+        const terms = readOfferTerms(await readJson(req));
+        if (!terms) {
+          return error("proposed_price and completion_date are required", 400);
+        }
+
+        addOfferRound(offer, userId, terms);
+        offer.status = "countered";
+        notifyOfferEvent(offer, "countered", userId);
+        return Response.json(offer);
+      },
+    ),
+  },
+
+  // Reviews
+  "/mock-api/review": {
+    POST: authed(async (req, userId) => {
+      const body = await readJson<{
+        user_id?: number;
+        rating?: number;
+        content?: string;
+      }>(req);
+      const rating = Number(body?.rating);
+      if (!state.users.some((u) => u.user_id === body?.user_id)) {
+        return error("User not found", 404);
+      }
+      if (body?.user_id === userId) {
+        return error("Cannot review yourself", 400);
+      }
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return error("rating must be between 1 and 5", 400);
+      }
+
+      const review = {
+        review_id: state.nextId.review++,
+        user_reviewed: body!.user_id!,
+        user_reviewing: userId,
+        rating,
+        content: body?.content?.trim() ?? "",
+        created_at: new Date().toISOString(),
+      };
+      state.reviews.push(review);
+      notifyReview(review);
+      return Response.json(review, { status: 201 });
+    }),
+  },
+
+  "/mock-api/reviews/for/:id": {
+    GET: authed((req: Bun.BunRequest<"/mock-api/reviews/for/:id">) =>
+      Response.json(
+        state.reviews.filter((r) => r.user_reviewed === Number(req.params.id)),
+      ),
+    ),
+  },
+
+  // Chat history. Conversations are ordered by their last message, newest
+  // first.
+  "/mock-api/messages/conversations": {
+    GET: authed((_req, userId) => {
+      const conversations = new Map<number, Conversation>();
+      for (const message of state.messages) {
+        const otherId = otherParty(message, userId);
+        if (otherId === null) continue;
+        const unread =
+          message.receiver_id === userId && !message.read_at ? 1 : 0;
+        const previous = conversations.get(otherId)?.unread_count ?? 0;
+        conversations.set(otherId, {
+          user_id: otherId,
+          last_message: message,
+          unread_count: previous + unread,
+        });
+      }
+      return Response.json(
+        [...conversations.values()].sort((a, b) =>
+          b.last_message.sent_at.localeCompare(a.last_message.sent_at),
+        ),
+      );
+    }),
+  },
+
+  // The newest `limit` messages with a user, sent before the message with
+  // id `before` when given. Returned oldest first.
+  "/mock-api/messages/with/:id": {
+    GET: authed(
+      (req: Bun.BunRequest<"/mock-api/messages/with/:id">, userId) => {
+        const otherId = Number(req.params.id);
+        const params = new URL(req.url).searchParams;
+        const before = Number(params.get("before")) || Infinity;
+        const limit = Number(params.get("limit")) || 50;
+        const thread = state.messages.filter(
+          (m) => otherParty(m, userId) === otherId && m.message_id < before,
+        );
+        return Response.json(thread.slice(-limit));
+      },
+    ),
+  },
+
+  // Marks the messages received from a user as read
+  "/mock-api/messages/with/:id/read": {
+    POST: authed(
+      (req: Bun.BunRequest<"/mock-api/messages/with/:id/read">, userId) => {
+        const otherId = Number(req.params.id);
+        const now = new Date().toISOString();
+        const unread = state.messages.filter(
+          (m) =>
+            m.sender_id === otherId && m.receiver_id === userId && !m.read_at,
+        );
+        for (const message of unread) {
+          message.delivered_at ??= now;
+          message.read_at = now;
+        }
+        sendReceipts(unread, userId, "read", now);
+        return text("Messages marked as read");
+      },
+    ),
+  },
+
+  // Chat attachments, registered before the message they're sent with
+  "/mock-api/messages/attachments": {
+    POST: authed(async (req, userId) => {
+      const body = await readJson<{
+        name?: string;
+        mime_type?: unknown;
+        size?: number;
+        url?: unknown;
+      }>(req);
+      if (
+        !body?.name?.trim() ||
+        typeof body.size !== "number" ||
+        !isFileUrl(body.url)
+      ) {
+        return error("name, size and url are required", 400);
+      }
+      if (body.size > MAX_ATTACHMENT_SIZE) {
+        return error("Attachment too large", 413);
+      }
+
+      const attachment: StoredAttachment = {
+        attachment_id: state.nextId.attachment++,
+        name: body.name.trim(),
+        // Clients decide by it what to show inline, see isImageType()
+        mime_type: readMimeType(body.mime_type),
+        size: body.size,
+        url: body.url,
+        user_id: userId,
+      };
+      state.attachments.push(attachment);
+      return Response.json(publicAttachment(attachment), { status: 201 });
+    }),
+  },
+
+  // Notifications. Pushes go to the push services browsers subscribed with,
+  // GET /mock-api/__push lists what was sent.
+  "/mock-api/notifications/preferences": {
+    GET: authed((_req, userId) => Response.json(preferencesOf(userId))),
+    PUT: authed(async (req, userId) => {
+      const body = await readJson<Partial<NotificationPreferences>>(req);
+      if (!body) return error("Invalid preferences", 400);
+      const preferences = { ...preferencesOf(userId) };
+      for (const category of Object.keys(DEFAULT_PREFERENCES)) {
+        const value = body[category as keyof NotificationPreferences];
+        if (typeof value === "boolean") {
+          preferences[category as keyof NotificationPreferences] = value;
+        }
+      }
+      state.notificationPreferences[userId] = preferences;
+      return Response.json(preferences);
+    }),
+  },
+
+  "/mock-api/notifications/push/key": {
+    GET: async () => text(await getVapidPublicKey()),
+  },
+
+  "/mock-api/notifications/push/subscriptions": {
+    POST: authed(async (req, userId) => {
+      const body = await readJson<PushSubscriptionJSON>(req);
+      const { endpoint, keys } = body ?? {};
+      if (!endpoint || !keys?.p256dh || !keys.auth) {
+        return error("Invalid subscription", 400);
+      }
+      // A browser belongs to whoever registered it last
+      state.pushSubscriptions = state.pushSubscriptions.filter(
+        (s) => s.endpoint !== endpoint,
+      );
+      state.pushSubscriptions.push({
+        user_id: userId,
+        endpoint,
+        keys: { p256dh: keys.p256dh, auth: keys.auth },
+      });
+      return text("Subscription saved", 201);
+    }),
+    DELETE: authed(async (req, userId) => {
+      const body = await readJson<{ endpoint?: string }>(req);
+      state.pushSubscriptions = state.pushSubscriptions.filter(
+        (s) => s.user_id !== userId || s.endpoint !== body?.endpoint,
+      );
+      return text("Subscription removed");
+    }),
+  },
+
+  // Sent whatever the preferences are
+  "/mock-api/notifications/push/test": {
+    POST: authed((_req, userId) => {
+      if (!state.pushSubscriptions.some((s) => s.user_id === userId)) {
+        return error("No push subscription", 404);
+      }
+      sendNotification(
+        userId,
+        {
+          category: "messages",
+          title: "Powiadomienia działają",
+          body: "Tak będą wyglądać powiadomienia o wiadomościach i ofertach.",
+          url: "/orders",
+        },
+        { force: true },
+      );
+      return text("Test notification sent");
+    }),
+  },
+
+  // Chat, the token is passed as a query parameter by the browser
+  "/mock-api/messages/listen": (req: Request, server: Server<SocketData>) => {
+    const userId = authenticate(req);
+    if (userId === null) return error("Unauthorized", 401);
+    if (server.upgrade(req, { data: { kind: "mock", userId } })) return;
+    return error("WebSocket upgrade required", 426);
+  },
+
+  // Restores the seed data, for end-to-end tests
+  "/mock-api/__reset": {
+    POST() {
+      resetMockData();
+      return text("Mock data reset");
+    },
+  },
+
+  // Pushes sent since startup or the last reset, for end-to-end tests
+  "/mock-api/__push": {
+    GET: () => Response.json(state.sentPushes),
+  },
+
+  "/mock-api/*": () => error("Not found", 404),
+};
+
+export const mockWebSocket: WebSocketHandler<MockSocketData> = {
+  open(ws) {
+    const { userId } = ws.data;
+    const userSockets = sockets.get(userId) ?? new Set();
+    userSockets.add(ws);
+    sockets.set(userId, userSockets);
+    if (userSockets.size > 1) return;
+
+    // Messages sent while the user was away reach them now
+    const now = new Date().toISOString();
+    const undelivered = state.messages.filter(
+      (m) => m.receiver_id === userId && !m.delivered_at,
+    );
+    for (const message of undelivered) message.delivered_at = now;
+    sendReceipts(undelivered, userId, "delivered", now);
+    broadcastPresence(userId);
+  },
+
+  message(ws, raw) {
+    let data: {
+      type?: string;
+      receiver_id?: number;
+      content?: string;
+      client_id?: string;
+      is_typing?: boolean;
+      attachment_ids?: number[];
+    };
+    try {
+      data = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+
+    // Heartbeat of the client's connection manager
+    if (data.type === "ping") {
+      ws.send(JSON.stringify({ type: "pong" }));
+      return;
+    }
+
+    // Relayed as is, typing state isn't stored
+    if (data.type === "typing") {
+      if (typeof data.receiver_id !== "number") return;
+      const payload: TypingEvent = {
+        type: "typing",
+        user_id: ws.data.userId,
+        is_typing: data.is_typing === true,
+      };
+      push([data.receiver_id], payload);
+      return;
+    }
+
+    // A message retried after its ack was lost is stored only once, the
+    // sender just gets the stored copy again
+    const clientId =
+      typeof data.client_id === "string" ? data.client_id : undefined;
+    const stored =
+      clientId &&
+      state.messages.find(
+        (m) => m.sender_id === ws.data.userId && m.client_id === clientId,
+      );
+    if (stored) {
+      ws.send(JSON.stringify(stored));
+      return;
+    }
+
+    // Only the sender's own uploads that weren't sent yet
+    const attachmentIds = Array.isArray(data.attachment_ids)
+      ? data.attachment_ids
+      : [];
+    const attachments = state.attachments.filter(
+      (a) =>
+        attachmentIds.includes(a.attachment_id) &&
+        a.user_id === ws.data.userId &&
+        a.message_id === undefined,
+    );
+    const content = data.content?.trim() ?? "";
+    if (
+      (!content && attachments.length === 0) ||
+      !state.users.some((u) => u.user_id === data.receiver_id)
+    ) {
+      return;
+    }
+
+    // The sender is always the authenticated user, whatever the client claims
+    const message: Message = {
+      message_id: state.nextId.message++,
+      sender_id: ws.data.userId,
+      receiver_id: data.receiver_id!,
+      content,
+      sent_at: new Date().toISOString(),
+      ...(clientId && { client_id: clientId }),
+      ...(attachments.length > 0 && {
+        attachments: attachments.map(publicAttachment),
+      }),
+    };
+    for (const attachment of attachments) {
+      attachment.message_id = message.message_id;
+    }
+    state.messages.push(message);
+    deliver(message);
+  },
+
+  close(ws) {
+    const { userId } = ws.data;
+    const userSockets = sockets.get(userId);
+    userSockets?.delete(ws);
+    if (userSockets?.size) return;
+
+    state.lastSeen[userId] = new Date().toISOString();
+    broadcastPresence(userId);
+  },
+};
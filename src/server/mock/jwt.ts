@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Minimal HS256 JWT implementation for the mock backend. The frontend only
+// decodes `sub` from the payload, so no other claims are required.
+
+const SECRET = process.env.MOCK_JWT_SECRET || "techni-zlecenia-mock-secret";
+const TOKEN_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+interface TokenPayload {
+  sub: number;
+  iat: number;
+  exp: number;
+}
+
+const base64url = (input: string | Buffer) =>
+  Buffer.from(input).toString("base64url");
+
+const sign = (data: string) =>
+  createHmac("sha256", SECRET).update(data).digest("base64url");
+
+export function signToken(userId: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({ sub: userId, iat: now, exp: now + TOKEN_TTL_SECONDS }),
+  );
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+// Returns the user ID for a valid, unexpired token and null otherwise
+export function verifyToken(token: string): number | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString(),
+    ) as TokenPayload;
+    if (claims.exp < Math.floor(Date.now() / 1000)) return null;
+    return claims.sub;
+  } catch {
+    return null;
+  }
+}
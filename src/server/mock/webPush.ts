@@ -0,0 +1,191 @@
+// Web Push sender of the mock backend: VAPID authentication (RFC 8292) and
+// aes128gcm payload encryption (RFC 8291), so pushes reach the real push
+// services browsers subscribe with. The VAPID key pair is generated on
+// startup, browsers subscribed with an older key subscribe again on login.
+
+export interface StoredSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+// Result of a delivery: the push service's status, 0 when it wasn't reached
+export interface PushResult {
+  status: number;
+  // The subscription expired or was revoked and should be forgotten
+  isGone: boolean;
+}
+
+const VAPID_SUBJECT = "mailto:mock@localhost";
+// Seconds the push service keeps an undelivered message
+const PUSH_TTL = 24 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+const encoder = new TextEncoder();
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  Buffer.from(bytes).toString("base64url");
+const fromBase64Url = (value: string): Bytes =>
+  new Uint8Array(Buffer.from(value, "base64url"));
+
+const concat = (...parts: Uint8Array[]): Bytes => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+async function hkdf(salt: Bytes, ikm: Bytes, info: Bytes, length: number) {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt, info },
+    key,
+    length * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+let vapidKeys: Promise<{ keyPair: CryptoKeyPair; publicKey: string }> | null =
+  null;
+
+function getVapidKeys() {
+  vapidKeys ??= (async () => {
+    const keyPair = await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign"],
+    );
+    const raw = await crypto.subtle.exportKey("raw", keyPair.publicKey);
+    return { keyPair, publicKey: toBase64Url(new Uint8Array(raw)) };
+  })();
+  return vapidKeys;
+}
+
+// Uncompressed P-256 point, the applicationServerKey of subscriptions
+export async function getVapidPublicKey() {
+  return (await getVapidKeys()).publicKey;
+}
+
+// Signed for the push service's origin, valid for 12 hours
+async function vapidAuthorization(endpoint: string) {
+  const { keyPair, publicKey } = await getVapidKeys();
+  const encode = (value: object) =>
+    toBase64Url(encoder.encode(JSON.stringify(value)));
+  const unsigned = `${encode({ typ: "JWT", alg: "ES256" })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: VAPID_SUBJECT,
+  })}`;
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    keyPair.privateKey,
+    encoder.encode(unsigned),
+  );
+  const jwt = `${unsigned}.${toBase64Url(new Uint8Array(signature))}`;
+  return `vapid t=${jwt}, k=${publicKey}`;
+}
+
+// Encrypts the payload for the subscription as a single aes128gcm record
+export async function encryptPayload(
+  subscription: StoredSubscription,
+  payload: string,
+) {
+  const userPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  const localKeys = await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    ["deriveBits"],
+  );
+  const localPublicKey = new Uint8Array(
+    await crypto.subtle.exportKey("raw", localKeys.publicKey),
+  );
+  const userKey = await crypto.subtle.importKey(
+    "raw",
+    userPublicKey,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    [],
+  );
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "ECDH", public: userKey },
+      localKeys.privateKey,
+      256,
+    ),
+  );
+
+  const ikm = await hkdf(
+    authSecret,
+    sharedSecret,
+    concat(encoder.encode("WebPush: info\0"), userPublicKey, localPublicKey),
+    32,
+  );
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(
+    salt,
+    ikm,
+    encoder.encode("Content-Encoding: aes128gcm\0"),
+    16,
+  );
+  const nonce = await hkdf(
+    salt,
+    ikm,
+    encoder.encode("Content-Encoding: nonce\0"),
+    12,
+  );
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    contentKey,
+    "AES-GCM",
+    false,
+    ["encrypt"],
+  );
+  // 0x02 delimits the last (and only) record
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: nonce },
+      key,
+      concat(encoder.encode(payload), new Uint8Array([2])),
+    ),
+  );
+
+  const header = new Uint8Array(21);
+  header.set(salt);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = localPublicKey.length;
+  return concat(header, localPublicKey, ciphertext);
+}
+
+export async function sendPush(
+  subscription: StoredSubscription,
+  payload: string,
+): Promise<PushResult> {
+  try {
+    const response = await fetch(subscription.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: await vapidAuthorization(subscription.endpoint),
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: String(PUSH_TTL),
+      },
+      body: await encryptPayload(subscription, payload),
+    });
+    return {
+      status: response.status,
+      isGone: response.status === 404 || response.status === 410,
+    };
+  } catch (error) {
+    console.error("Error sending push:", error);
+    return { status: 0, isGone: false };
+  }
+}
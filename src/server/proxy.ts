@@ -0,0 +1,180 @@
+import type { ServerWebSocket, WebSocketHandler } from "bun";
+
+// Same-origin proxy for the marketplace backend. The browser only ever talks
+// to /api on its own origin; this module forwards HTTP requests and chat
+// WebSockets to BACKEND_URL, so the real backend URL and its CORS policy
+// stay out of the frontend.
+
+export const PROXY_PREFIX = "/api";
+
+const BACKEND_URL = (
+  process.env.BACKEND_URL || "https://techni-zlecenia-4wdh.shuttle.app"
+).replace(/\/+$/, "");
+
+const TIMEOUT_MS = Number(process.env.PROXY_TIMEOUT_MS) || 15_000;
+
+// Only these request headers reach the backend. Cookies, Origin, Referer and
+// forwarding headers from the browser are dropped.
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "accept-language",
+  "authorization",
+  "content-type",
+  "if-none-match",
+  "if-modified-since",
+];
+
+// Response headers that must not be passed back: hop-by-hop headers, headers
+// invalidated by fetch() decoding the body, and backend fingerprinting.
+const BLOCKED_RESPONSE_HEADERS = [
+  "connection",
+  "content-encoding",
+  "content-length",
+  "keep-alive",
+  "server",
+  "set-cookie",
+  "transfer-encoding",
+  "x-powered-by",
+];
+
+export interface ProxySocketData {
+  kind: "proxy";
+  target: string;
+  upstream?: WebSocket;
+  // Client messages sent before the upstream socket finished connecting
+  pending: (string | Buffer)[];
+}
+
+const log = (message: string) => console.log(`[proxy] ${message}`);
+
+function backendUrl(req: Request) {
+  const url = new URL(req.url);
+  return `${BACKEND_URL}${url.pathname.slice(PROXY_PREFIX.length)}${url.search}`;
+}
+
+function sanitizeRequestHeaders(headers: Headers) {
+  const result = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) result.set(name, value);
+  }
+  return result;
+}
+
+function sanitizeResponseHeaders(headers: Headers) {
+  const result = new Headers(headers);
+  for (const name of BLOCKED_RESPONSE_HEADERS) {
+    result.delete(name);
+  }
+  const corsHeaders: string[] = [];
+  result.forEach((_, name) => {
+    if (name.startsWith("access-control-")) corsHeaders.push(name);
+  });
+  for (const name of corsHeaders) {
+    result.delete(name);
+  }
+  return result;
+}
+
+export async function proxyRequest(req: Request): Promise<Response> {
+  const target = backendUrl(req);
+  const path = new URL(target).pathname;
+  const started = performance.now();
+  const elapsed = () => `${(performance.now() - started).toFixed(0)}ms`;
+  // Only waiting for the response headers is limited, a slow download or a
+  // long-lived stream goes on after the timer is cleared
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, TIMEOUT_MS);
+
+  try {
+    const response = await fetch(target, {
+      method: req.method,
+      headers: sanitizeRequestHeaders(req.headers),
+      body:
+        req.method === "GET" || req.method === "HEAD"
+          ? undefined
+          : await req.arrayBuffer(),
+      redirect: "manual",
+      signal: controller.signal,
+    });
+    clearTimeout(timer);
+
+    log(`${req.method} ${path} → ${response.status} (${elapsed()})`);
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: sanitizeResponseHeaders(response.headers),
+    });
+  } catch (error) {
+    clearTimeout(timer);
+    log(
+      `${req.method} ${path} → ${timedOut ? "timeout" : "error"} (${elapsed()}): ${error}`,
+    );
+    return new Response(timedOut ? "Gateway Timeout" : "Bad Gateway", {
+      status: timedOut ? 504 : 502,
+    });
+  }
+}
+
+export function proxySocketData(req: Request): ProxySocketData {
+  const target = backendUrl(req).replace(/^http/, "ws");
+  return { kind: "proxy", target, pending: [] };
+}
+
+export const proxyWebSocket: WebSocketHandler<ProxySocketData> = {
+  open(ws) {
+    const path = new URL(ws.data.target).pathname;
+    const upstream = new WebSocket(ws.data.target);
+    ws.data.upstream = upstream;
+
+    upstream.onopen = () => {
+      log(`WS ${path} connected`);
+      for (const message of ws.data.pending) {
+        upstream.send(message);
+      }
+      ws.data.pending = [];
+    };
+    upstream.onmessage = (event) => {
+      ws.send(event.data);
+    };
+    upstream.onclose = (event) => {
+      log(`WS ${path} closed (${event.code})`);
+      closeClient(ws, event.code);
+    };
+    upstream.onerror = () => {
+      log(`WS ${path} upstream error`);
+      closeClient(ws, 1011);
+    };
+  },
+
+  message(ws, message) {
+    const upstream = ws.data.upstream;
+    if (upstream?.readyState === WebSocket.OPEN) {
+      upstream.send(message);
+    } else {
+      ws.data.pending.push(message);
+    }
+  },
+
+  close(ws) {
+    const upstream = ws.data.upstream;
+    if (
+      upstream &&
+      (upstream.readyState === WebSocket.OPEN ||
+        upstream.readyState === WebSocket.CONNECTING)
+    ) {
+      upstream.close();
+    }
+  },
+};
+
+// 1005/1006 are reserved and can't be sent in a close frame
+function closeClient(ws: ServerWebSocket<ProxySocketData>, code: number) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.close(code === 1005 || code === 1006 ? 1011 : code);
+  }
+}
@@ -0,0 +1,45 @@
+import path from "path";
+
+// Serves the service worker (src/sw.ts) at /sw.js. It has to come from the
+// root of the origin to control every page, so it isn't part of the HTML
+// bundle. Built on the first request, and on every request in development
+// so edits show up on reload.
+
+const ENTRYPOINT = path.join(import.meta.dir, "..", "sw.ts");
+const production = process.env.NODE_ENV === "production";
+
+let bundle: Promise<string> | null = null;
+
+async function build() {
+  const result = await Bun.build({
+    entrypoints: [ENTRYPOINT],
+    target: "browser",
+    minify: production,
+  });
+  const output = result.outputs[0];
+  if (!result.success || !output) {
+    throw new AggregateError(result.logs, "Service worker build failed");
+  }
+  return output.text();
+}
+
+export async function serveServiceWorker() {
+  if (!production || !bundle) {
+    bundle = build();
+    // Retried on the next request
+    bundle.catch(() => (bundle = null));
+  }
+
+  try {
+    return new Response(await bundle, {
+      headers: {
+        "Content-Type": "text/javascript; charset=utf-8",
+        // Browsers check for a new version on every navigation
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error building service worker:", error);
+    return new Response("Service worker build failed", { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { type UploadSession, uploadRoutes } from "./uploads";
+
+// UPLOADS_DIR is a temporary directory, see src/test/setup.ts
+const server = Bun.serve({ port: 0, routes: uploadRoutes });
+afterAll(() => server.stop(true));
+
+const uploadsUrl = new URL("/uploads", server.url).toString();
+
+async function createUpload(name: string, mimeType: string, size: number) {
+  const response = await fetch(uploadsUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, mime_type: mimeType, size }),
+  });
+  expect(response.status).toBe(201);
+  return (await response.json()) as UploadSession;
+}
+
+const putChunk = (id: string, offset: number, chunk: string) =>
+  fetch(`${uploadsUrl}/${id}?offset=${offset}`, {
+    method: "PUT",
+    body: chunk,
+  });
+
+describe("upload stand-in", () => {
+  test("rejects sessions without a valid name and size", async () => {
+    for (const body of [{ size: 3 }, { name: "a", size: -1 }, { name: "a" }]) {
+      const response = await fetch(uploadsUrl, {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      expect(response.status).toBe(400);
+    }
+  });
+
+  test("takes chunks at the confirmed offset until complete", async () => {
+    const session = await createUpload("zdjęcie.png", "image/png", 6);
+    expect(session).toMatchObject({ offset: 0, size: 6, url: null });
+
+    const first = await putChunk(session.upload_id, 0, "abc");
+    expect(await first.json()).toMatchObject({ offset: 3, url: null });
+
+    // A retried chunk is refused with the offset to continue from
+    const repeated = await putChunk(session.upload_id, 0, "abc");
+    expect(repeated.status).toBe(409);
+    expect(await repeated.json()).toMatchObject({ offset: 3 });
+
+    const tooLong = await putChunk(session.upload_id, 3, "defg");
+    expect(tooLong.status).toBe(400);
+
+    const last = await putChunk(session.upload_id, 3, "def");
+    const complete = (await last.json()) as UploadSession;
+    expect(complete.offset).toBe(6);
+    expect(complete.url).toEndWith(
+      `/uploads/${session.upload_id}/${encodeURIComponent("zdjęcie.png")}`,
+    );
+
+    const file = await fetch(complete.url!);
+    expect(await file.text()).toBe("abcdef");
+    expect(file.headers.get("Content-Type")).toBe("image/png");
+    expect(file.headers.get("Content-Disposition")).toBeNull();
+  });
+
+  test("completes empty files right away", async () => {
+    const session = await createUpload("pusty.txt", "text/plain", 0);
+    expect(session.url).not.toBeNull();
+  });
+
+  test("serves other files as sandboxed downloads", async () => {
+    const session = await createUpload("strona.html", "text/html", 4);
+    const response = await putChunk(session.upload_id, 0, "<b/>");
+    const { url } = (await response.json()) as UploadSession;
+
+    const file = await fetch(url!);
+    expect(file.headers.get("Content-Type")).toBe("application/octet-stream");
+    expect(file.headers.get("Content-Disposition")).toStartWith("attachment;");
+    expect(file.headers.get("Content-Security-Policy")).toBe("sandbox");
+    expect(file.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+
+  test("serves incomplete uploads as not found", async () => {
+    const session = await createUpload("a.png", "image/png", 2);
+    await putChunk(session.upload_id, 0, "a");
+    const file = await fetch(`${uploadsUrl}/${session.upload_id}/a.png`);
+    expect(file.status).toBe(404);
+  });
+
+  test("deletes an upload once, also when asked twice at once", async () => {
+    const session = await createUpload("a.png", "image/png", 2);
+    const url = `${uploadsUrl}/${session.upload_id}`;
+    const statuses = await Promise.all(
+      [1, 2].map(async () => (await fetch(url, { method: "DELETE" })).status),
+    );
+    expect(statuses.sort()).toEqual([204, 404]);
+    expect((await fetch(url)).status).toBe(404);
+  });
+});
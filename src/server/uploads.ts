@@ -0,0 +1,222 @@
+import { appendFile, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "path";
+import { isImageType } from "../lib/uploads";
+
+// Local stand-in for the upload service, mounted under UPLOADS_PREFIX by
+// src/index.tsx unless UPLOAD_URL points the frontend at a real one. Files
+// are kept in UPLOADS_DIR, one "<id>.json" with the metadata and one
+// "<id>.data" with the bytes received so far, so uploads survive restarts.
+//
+// The protocol, see src/lib/fileUploader.ts for the client:
+//   POST   /uploads                  {name, mime_type, size} -> session,
+//                                    complete right away for empty files
+//   GET    /uploads/:id              -> session, to resume after a failure
+//   PUT    /uploads/:id?offset=N     raw bytes from offset N -> session,
+//                                    409 with the session on a wrong offset
+//   DELETE /uploads/:id              cancels and removes the upload
+//   GET    /uploads/:id/:name        the file, once complete
+//
+// There is no auth, it is meant for development only. Files are served from
+// the app's origin, so only raster images are shown inline: everything else
+// is stored as application/octet-stream and served as a download, and every
+// response is sandboxed.
+
+export const UPLOADS_PREFIX = "/uploads";
+
+const UPLOADS_DIR =
+  process.env.UPLOADS_DIR || path.join(process.cwd(), ".uploads");
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+// Suggested to clients, larger chunks are accepted up to the hard limit
+const CHUNK_SIZE = 256 * 1024;
+const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export interface UploadSession {
+  upload_id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  // Bytes received so far
+  offset: number;
+  chunk_size: number;
+  // Where the file is served, null until complete
+  url: string | null;
+}
+
+type UploadRecord = Omit<UploadSession, "chunk_size" | "url">;
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const metaPath = (id: string) => path.join(UPLOADS_DIR, `${id}.json`);
+const dataPath = (id: string) => path.join(UPLOADS_DIR, `${id}.data`);
+
+// Keeps browsers from sniffing a served file into HTML and from running
+// script in anything opened from here
+const SECURITY_HEADERS = {
+  "X-Content-Type-Options": "nosniff",
+  "Content-Security-Policy": "sandbox",
+};
+
+const error = (message: string, status: number) =>
+  new Response(message, { status, headers: SECURITY_HEADERS });
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: SECURITY_HEADERS });
+
+// The name in ASCII for old clients, in full as UTF-8
+const contentDisposition = (name: string) =>
+  `attachment; filename="${name.replace(/[^\x20-\x7e]|["\\]/g, "_")}"; ` +
+  `filename*=UTF-8''${encodeURIComponent(name)}`;
+
+async function readRecord(id: string): Promise<UploadRecord | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(metaPath(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+const writeRecord = (record: UploadRecord) =>
+  writeFile(metaPath(record.upload_id), JSON.stringify(record));
+
+// Absolute, the URL ends up in orders other clients load
+function toSession(record: UploadRecord, req: Request): UploadSession {
+  const complete = record.offset === record.size;
+  return {
+    ...record,
+    chunk_size: CHUNK_SIZE,
+    url: complete
+      ? new URL(
+          `${UPLOADS_PREFIX}/${record.upload_id}/${encodeURIComponent(record.name)}`,
+          req.url,
+        ).toString()
+      : null,
+  };
+}
+
+// Chunks of one upload are written one at a time, a chunk retried while the
+// first attempt is still being written must see its offset
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(id: string, fn: () => Promise<T>) {
+  const previous = locks.get(id) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  const settled = next.catch(() => {});
+  locks.set(id, settled);
+  settled.then(() => {
+    if (locks.get(id) === settled) locks.delete(id);
+  });
+  return next;
+}
+
+export const uploadRoutes = {
+  "/uploads": {
+    async POST(req: Request) {
+      let body: { name?: unknown; mime_type?: unknown; size?: unknown };
+      try {
+        body = await req.json();
+      } catch {
+        return error("Invalid JSON", 400);
+      }
+      const { name, mime_type: mimeType, size } = body ?? {};
+      if (
+        typeof name !== "string" ||
+        !name.trim() ||
+        typeof size !== "number" ||
+        !Number.isInteger(size) ||
+        size < 0
+      ) {
+        return error("name and size are required", 400);
+      }
+      if (size > MAX_UPLOAD_SIZE) return error("File too large", 413);
+
+      const record: UploadRecord = {
+        upload_id: crypto.randomUUID(),
+        // No path separators, the name ends up in the file URL
+        name: path.basename(name.trim()),
+        mime_type:
+          typeof mimeType === "string" && isImageType(mimeType)
+            ? mimeType.toLowerCase()
+            : "application/octet-stream",
+        size,
+        offset: 0,
+      };
+      await mkdir(UPLOADS_DIR, { recursive: true });
+      await writeFile(dataPath(record.upload_id), "");
+      await writeRecord(record);
+      return json(toSession(record, req), 201);
+    },
+  },
+
+  "/uploads/:id": {
+    async GET(req: Bun.BunRequest<"/uploads/:id">) {
+      const record = await readRecord(req.params.id);
+      if (!record) return error("Upload not found", 404);
+      return json(toSession(record, req));
+    },
+
+    PUT(req: Bun.BunRequest<"/uploads/:id">) {
+      const { id } = req.params;
+      return withLock(id, async () => {
+        const record = await readRecord(id);
+        if (!record) return error("Upload not found", 404);
+
+        const offset = Number(new URL(req.url).searchParams.get("offset"));
+        if (offset !== record.offset) {
+          return json(toSession(record, req), 409);
+        }
+        const chunk = new Uint8Array(await req.arrayBuffer());
+        if (chunk.length > MAX_CHUNK_SIZE) {
+          return error("Chunk too large", 413);
+        }
+        if (offset + chunk.length > record.size) {
+          return error("Chunk exceeds the declared size", 400);
+        }
+
+        await appendFile(dataPath(id), chunk);
+        record.offset += chunk.length;
+        await writeRecord(record);
+        return json(toSession(record, req));
+      });
+    },
+
+    DELETE(req: Bun.BunRequest<"/uploads/:id">) {
+      const { id } = req.params;
+      // Looked up under the lock, of two DELETEs at once the second one
+      // finds nothing
+      return withLock(id, async () => {
+        if (!(await readRecord(id))) return error("Upload not found", 404);
+        await Promise.all([
+          rm(metaPath(id), { force: true }),
+          rm(dataPath(id), { force: true }),
+        ]);
+        return new Response(null, { status: 204, headers: SECURITY_HEADERS });
+      });
+    },
+  },
+
+  "/uploads/:id/:name": {
+    async GET(req: Bun.BunRequest<"/uploads/:id/:name">) {
+      const record = await readRecord(req.params.id);
+      if (!record || record.offset !== record.size) {
+        return error("File not found", 404);
+      }
+      // Checked again, uploads stored before POST checked the type may
+      // carry any
+      const isInline = isImageType(record.mime_type);
+      return new Response(Bun.file(dataPath(record.upload_id)), {
+        headers: {
+          ...SECURITY_HEADERS,
+          "Content-Type": isInline
+            ? record.mime_type
+            : "application/octet-stream",
+          ...(!isInline && {
+            "Content-Disposition": contentDisposition(record.name),
+          }),
+          // Uploads never change once complete
+          "Cache-Control": "public, max-age=31536000, immutable",
+        },
+      });
+    },
+  },
+};
@@ -0,0 +1,33 @@
+import type { ServerWebSocket, WebSocketHandler } from "bun";
+import { mockWebSocket, type MockSocketData } from "./mock";
+import { proxyWebSocket, type ProxySocketData } from "./proxy";
+
+// Bun.serve takes a single websocket handler, so sockets are tagged with
+// `kind` on upgrade and dispatched to the mock or the proxy here.
+
+export type SocketData = MockSocketData | ProxySocketData;
+
+const isMock = (
+  ws: ServerWebSocket<SocketData>,
+): ws is ServerWebSocket<MockSocketData> => ws.data.kind === "mock";
+
+const isProxy = (
+  ws: ServerWebSocket<SocketData>,
+): ws is ServerWebSocket<ProxySocketData> => ws.data.kind === "proxy";
+
+export const websocket: WebSocketHandler<SocketData> = {
+  open(ws) {
+    if (isMock(ws)) mockWebSocket.open?.(ws);
+    else if (isProxy(ws)) proxyWebSocket.open?.(ws);
+  },
+
+  message(ws, message) {
+    if (isMock(ws)) mockWebSocket.message(ws, message);
+    else if (isProxy(ws)) proxyWebSocket.message(ws, message);
+  },
+
+  close(ws, code, reason) {
+    if (isMock(ws)) mockWebSocket.close?.(ws, code, reason);
+    else if (isProxy(ws)) proxyWebSocket.close?.(ws, code, reason);
+  },
+};
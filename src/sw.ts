@@ -0,0 +1,69 @@
+/// <reference lib="webworker" />
+import type { PushNotification } from "./types";
+
+// Service worker, served at /sw.js by src/index.tsx and emitted next to
+// index.html by build.ts. Shows the notifications pushed by the backend and
+// opens the app where they point to when clicked.
+
+declare const self: ServiceWorkerGlobalScope;
+
+interface NotificationData {
+  url: string;
+  modal?: boolean;
+}
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+async function showPush(notification: PushNotification) {
+  // A tab the user is looking at shows the event as a toast already
+  const windows = await self.clients.matchAll({ type: "window" });
+  if (windows.some((client) => client.focused)) return;
+
+  const data: NotificationData = {
+    url: notification.url,
+    modal: notification.modal,
+  };
+  await self.registration.showNotification(notification.title, {
+    body: notification.body,
+    tag: notification.tag,
+    data,
+  });
+}
+
+self.addEventListener("push", (event) => {
+  let notification: PushNotification;
+  try {
+    notification = event.data?.json();
+  } catch (error) {
+    console.error("Error parsing push message:", error);
+    return;
+  }
+  if (notification) event.waitUntil(showPush(notification));
+});
+
+async function openApp({ url, modal }: NotificationData) {
+  const windows = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+  const client = windows[0];
+  if (!client) {
+    await self.clients.openWindow(url);
+    return;
+  }
+  // The app navigates itself, keeping its state, see registerServiceWorker()
+  await client.focus();
+  client.postMessage({ type: "navigate", url, modal });
+}
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const data = event.notification.data as NotificationData | undefined;
+  event.waitUntil(openApp(data ?? { url: "/" }));
+});
@@ -0,0 +1,18 @@
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "path";
+
+// Loaded before the test files, see bunfig.toml
+
+// Browser globals client modules read when loaded, e.g. src/lib/config.ts
+Object.assign(globalThis, {
+  window: globalThis,
+  location: new URL("http://localhost/"),
+});
+Object.defineProperty(navigator, "onLine", { value: true, configurable: true });
+
+// The upload stand-in (src/server/uploads.ts) writes to a fresh directory
+const uploadsDir = mkdtempSync(path.join(tmpdir(), "uploads-test-"));
+process.env.UPLOADS_DIR = uploadsDir;
+afterAll(() => rmSync(uploadsDir, { recursive: true, force: true }));
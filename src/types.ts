@@ -0,0 +1,180 @@
+// Shared entity types returned by the TechniZlecenia backend
+
+export interface User {
+  user_id: number;
+  username: string;
+  email: string;
+  password_hash: string;
+  created_at: string;
+  // Listed on the profile and matched against orders, normalized like
+  // order tags. Missing until the user lists any.
+  skills?: string[];
+}
+
+// open → in_progress (an offer was accepted) → completed, or cancelled
+// from either of the first two
+export type OrderStatus = "open" | "in_progress" | "completed" | "cancelled";
+
+export type OrderCategory =
+  | "electronics"
+  | "programming"
+  | "3d_printing"
+  | "repair"
+  | "design"
+  | "other";
+
+export interface Order {
+  order_id: number;
+  user_id: number;
+  order_name: string;
+  order_desc: string;
+  price: number;
+  image_urls: string[];
+  created_at: string;
+  // Missing from orders created before the lifecycle existed, read it
+  // through getOrderStatus()
+  status?: OrderStatus;
+  // Missing from orders created before categories existed, read it through
+  // getOrderCategory()
+  category?: OrderCategory;
+  // Free-form, see normalizeTag()
+  tags?: string[];
+}
+
+export interface Offer {
+  offer_id: number;
+  order_id: number;
+  user_id: number;
+  status: string;
+  created_at: string;
+  // Bid details, missing from offers sent before they were collected.
+  // They hold the latest terms when the offer was negotiated.
+  proposed_price?: number;
+  // YYYY-MM-DD
+  completion_date?: string;
+  message?: string;
+  // Negotiation rounds, oldest first. The first one is the application,
+  // every later one a counter-offer by the order owner or the applicant.
+  history?: OfferRound[];
+}
+
+export interface OfferRound {
+  // Author of the round
+  user_id: number;
+  proposed_price: number;
+  completion_date: string;
+  message: string;
+  created_at: string;
+}
+
+export interface Message {
+  message_id: number;
+  sender_id: number;
+  receiver_id: number;
+  content: string;
+  sent_at: string;
+  // Set by the sender to recognize the stored copy of a queued message
+  client_id?: string;
+  // When the message reached one of the receiver's open connections,
+  // missing until then
+  delivered_at?: string;
+  // When the receiver opened the conversation, missing while unread
+  read_at?: string;
+  // Files sent with the message, `content` may be empty when there are any
+  attachments?: Attachment[];
+}
+
+// An uploaded file registered with /messages/attachments and sent in a
+// message
+export interface Attachment {
+  attachment_id: number;
+  name: string;
+  mime_type: string;
+  // In bytes
+  size: number;
+  // Loadable without the auth header, e.g. by <img>
+  url: string;
+}
+
+// A chat with another user, as listed by /messages/conversations
+export interface Conversation {
+  // The other participant
+  user_id: number;
+  last_message: Message;
+  // Messages from the other participant the user hasn't read yet
+  unread_count: number;
+}
+
+// Pushed over the /messages/listen socket to the other side of an offer
+// when it changes
+export interface OfferEvent {
+  type: "offer";
+  event: "created" | "countered" | "accepted" | "rejected" | "withdrawn";
+  offer: Offer;
+  // Who made the change
+  user_id: number;
+}
+
+export interface Review {
+  review_id: number;
+  user_reviewed: number;
+  user_reviewing: number;
+  rating: number;
+  content: string;
+  created_at: string;
+}
+
+// Pushed over the /messages/listen socket to the receiver while the other
+// side of a conversation types, with `is_typing: false` once they stop
+export interface TypingEvent {
+  type: "typing";
+  user_id: number;
+  is_typing: boolean;
+}
+
+// Pushed over the /messages/listen socket to the sender of messages when
+// they reach the receiver (`user_id`) or are read by them
+export interface ReceiptEvent {
+  type: "receipt";
+  user_id: number;
+  message_ids: number[];
+  status: "delivered" | "read";
+  at: string;
+}
+
+export interface Presence {
+  user_id: number;
+  // Has the chat open in at least one tab
+  online: boolean;
+  // When their last connection closed, null when unknown
+  last_seen: string | null;
+}
+
+// Pushed over the /messages/listen socket to the user's conversation
+// partners when they come online or leave
+export interface PresenceEvent extends Presence {
+  type: "presence";
+}
+
+// Pushed over the /messages/listen socket to the reviewed user
+export interface ReviewEvent {
+  type: "review";
+  review: Review;
+}
+
+// Kinds of events a user can get browser notifications for
+export type NotificationCategory = "messages" | "offers" | "reviews";
+
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+// Payload of a Web Push message, shown by the service worker (src/sw.ts)
+export interface PushNotification {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  // Opened when the notification is clicked, as a modal for chat links
+  url: string;
+  modal?: boolean;
+  // Replaces an earlier notification with the same tag
+  tag?: string;
+}